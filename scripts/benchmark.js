@@ -0,0 +1,73 @@
+/**
+ * Measures how fast filters and formulas evaluate over a mock vault.
+ *
+ *   npm run bench            # 10,000 files
+ *   npm run bench -- 50000   # any other number of files
+ *
+ * The TypeScript sources are loaded through Vite's SSR module loader, so no build step is needed.
+ */
+import { performance } from 'node:perf_hooks';
+import { createServer } from 'vite';
+
+const fileCount = Number(process.argv[2] ?? 10000);
+const RUNS = 5;
+
+const base = {
+  filters: {
+    and: [
+      'file.hasTag("book") || file.inFolder("Projects")',
+      { or: ['status != "done"', 'priority >= 3'] },
+      { not: ['price > 900'] },
+    ],
+  },
+  formulas: {
+    ppu: '(price / age).toFixed(2)',
+    days_active: '((now() - created) / 86400000).floor()',
+    label: 'if(priority > 3, "urgent " + file.name, file.name.lower())',
+    expensive: 'formula.ppu > 10 && status == "active"',
+  },
+};
+
+const server = await createServer({
+  configFile: false,
+  logLevel: 'error',
+  appType: 'custom',
+  server: { middlewareMode: true, hmr: false },
+});
+
+try {
+  const parser = await server.ssrLoadModule('/src/lib/basesParser.ts');
+  const mockData = await server.ssrLoadModule('/src/lib/mockDataGeneratorLazy.ts');
+
+  console.log(`Generating ${fileCount.toLocaleString()} mock files...`);
+  const generated = await mockData.generateDemoFiles(fileCount);
+  parser.setVaultFiles(generated);
+
+  // Fresh copies per run, as the preview makes when the base changes, so formula caches start empty
+  const copies = () => generated.map((file) => ({ ...file, _baseData: base }));
+
+  const workloads = {
+    'filter': (files) => parser.applyFilters(files, base.filters),
+    'formulas': (files) => parser.precomputeFormulas(files, base),
+    'explain': (files) => files.forEach((file) => parser.explainFilter(file, base.filters)),
+  };
+
+  console.log(`\n${'workload'.padEnd(10)} ${'median ms'.padStart(10)} ${'files/s'.padStart(12)}`);
+  for (const [name, run] of Object.entries(workloads)) {
+    const times = [];
+    for (let i = 0; i < RUNS; i++) {
+      const files = copies();
+      const start = performance.now();
+      run(files);
+      times.push(performance.now() - start);
+    }
+    times.sort((a, b) => a - b);
+    const median = times[Math.floor(RUNS / 2)];
+    const throughput = Math.round((fileCount / median) * 1000);
+    console.log(
+      `${name.padEnd(10)} ${median.toFixed(1).padStart(10)} ${throughput.toLocaleString().padStart(12)}`
+    );
+  }
+} finally {
+  await server.close();
+}
@@ -0,0 +1,129 @@
+/** Provides the AST for Bases formula and filter expressions. */
+
+/** A half-open range of character offsets into the source expression. */
+export interface Span {
+  start: number;
+  end: number;
+}
+
+/** Values which can be written literally in an expression. */
+export type LiteralValue = string | number | boolean | null;
+
+/** Unary operators. */
+export type UnaryOp = "!" | "-";
+/** Comparison operators which yield true/false. */
+export type CompareOp = "==" | "!=" | ">" | ">=" | "<" | "<=";
+/** Arithmetic operators. */
+export type ArithmeticOp = "+" | "-" | "*" | "/" | "%";
+/** Short-circuiting logical operators. */
+export type LogicalOp = "&&" | "||";
+
+/** Any node of a parsed expression. */
+export type Expression =
+  | LiteralExpression
+  | RegexExpression
+  | ListExpression
+  | ObjectExpression
+  | IdentifierExpression
+  | MemberExpression
+  | IndexExpression
+  | CallExpression
+  | MethodCallExpression
+  | UnaryExpression
+  | BinaryExpression
+  | LogicalExpression;
+
+/** A literal string, number, boolean or null. */
+export interface LiteralExpression {
+  type: "literal";
+  value: LiteralValue;
+  span: Span;
+}
+
+/** A regular expression literal such as `/^\d+$/i`. */
+export interface RegexExpression {
+  type: "regex";
+  pattern: string;
+  flags: string;
+  span: Span;
+}
+
+/** A list literal such as `[1, 2, 3]`. */
+export interface ListExpression {
+  type: "list";
+  elements: Expression[];
+  span: Span;
+}
+
+/** An object literal such as `{"a": 1, b: 2}`. */
+export interface ObjectExpression {
+  type: "object";
+  entries: { key: string; value: Expression }[];
+  span: Span;
+}
+
+/** A bare name, such as a note property (`status`) or a namespace (`file`, `formula`, `note`). */
+export interface IdentifierExpression {
+  type: "identifier";
+  name: string;
+  span: Span;
+}
+
+/** A field access such as `file.name` or `formula.ppu`. */
+export interface MemberExpression {
+  type: "member";
+  object: Expression;
+  property: string;
+  span: Span;
+}
+
+/** An indexed access such as `authors[0]` or `note["due date"]`. */
+export interface IndexExpression {
+  type: "index";
+  object: Expression;
+  index: Expression;
+  span: Span;
+}
+
+/** A call to a global function such as `if(...)` or `now()`. */
+export interface CallExpression {
+  type: "call";
+  name: string;
+  args: Expression[];
+  span: Span;
+}
+
+/** A method called on a value such as `file.hasTag("book")`. */
+export interface MethodCallExpression {
+  type: "method";
+  receiver: Expression;
+  name: string;
+  args: Expression[];
+  span: Span;
+}
+
+/** A unary operator applied to a single operand. */
+export interface UnaryExpression {
+  type: "unary";
+  op: UnaryOp;
+  argument: Expression;
+  span: Span;
+}
+
+/** An arithmetic or comparison operator applied to two operands. */
+export interface BinaryExpression {
+  type: "binary";
+  op: CompareOp | ArithmeticOp;
+  left: Expression;
+  right: Expression;
+  span: Span;
+}
+
+/** A logical operator; the right operand is only evaluated when needed. */
+export interface LogicalExpression {
+  type: "logical";
+  op: LogicalOp;
+  left: Expression;
+  right: Expression;
+  span: Span;
+}
@@ -0,0 +1,235 @@
+import { DateTime, Duration, type DurationLikeObject } from "luxon";
+import type { ArithmeticOp } from "./ast";
+import { checkArity } from "./errors";
+import type { Method } from "./methods";
+
+/** Formats accepted by `date()` besides ISO 8601, most specific first. */
+const DATE_INPUT_FORMATS = [
+  "yyyy-MM-dd HH:mm:ss",
+  "yyyy-MM-dd HH:mm",
+  "yyyy-MM-dd",
+];
+
+/** Duration units accepted in strings such as `"7 days"` or `"-1w"`. */
+const DURATION_UNITS: Record<string, keyof DurationLikeObject> = {
+  y: "years",
+  year: "years",
+  years: "years",
+  M: "months",
+  month: "months",
+  months: "months",
+  w: "weeks",
+  week: "weeks",
+  weeks: "weeks",
+  d: "days",
+  day: "days",
+  days: "days",
+  h: "hours",
+  hour: "hours",
+  hours: "hours",
+  m: "minutes",
+  minute: "minutes",
+  minutes: "minutes",
+  s: "seconds",
+  second: "seconds",
+  seconds: "seconds",
+};
+
+const DURATION_PART = /([+-]?\d+(?:\.\d+)?)\s*([a-zA-Z]+)/g;
+
+/** Fields readable on a date, such as `file.ctime.year`. */
+export const DATE_FIELDS: Record<string, (date: DateTime) => number> = {
+  year: (date) => date.year,
+  month: (date) => date.month,
+  day: (date) => date.day,
+  hour: (date) => date.hour,
+  minute: (date) => date.minute,
+  second: (date) => date.second,
+  millisecond: (date) => date.millisecond,
+};
+
+/** Methods callable on a date. */
+export const DATE_METHODS: Record<string, Method> = {
+  date: (receiver: DateTime, args) => {
+    checkArity("date", args, 0);
+    return receiver.startOf("day");
+  },
+  format: (receiver: DateTime, args) => {
+    checkArity("format", args, 1);
+    return formatMoment(receiver, String(args[0]));
+  },
+  time: (receiver: DateTime, args) => {
+    checkArity("time", args, 0);
+    return receiver.toFormat("HH:mm:ss");
+  },
+};
+
+/** Whether a value is a date (a luxon DateTime or a plain JS Date from mock data). */
+export function isDate(value: any): value is DateTime | Date {
+  return value instanceof DateTime || value instanceof Date;
+}
+
+/** Convert a JS Date or DateTime into a DateTime. */
+export function toDateTime(value: Date | DateTime): DateTime {
+  return value instanceof DateTime ? value : DateTime.fromJSDate(value);
+}
+
+/**
+ * Parse a date string such as `2025-05-27` or `2025-05-27 14:30:00`. Returns null if it is not a date.
+ */
+export function parseDate(input: string): DateTime | null {
+  const text = input.trim();
+  const iso = DateTime.fromISO(text);
+  if (iso.isValid) return iso;
+
+  for (const format of DATE_INPUT_FORMATS) {
+    const parsed = DateTime.fromFormat(text, format);
+    if (parsed.isValid) return parsed;
+  }
+  return null;
+}
+
+/**
+ * Parse a duration string such as `"7 days"`, `"1 week 2d"` or `"-1 month"`. Returns null if it is not one.
+ */
+export function parseDuration(input: string): Duration | null {
+  const text = input.trim();
+  const values: DurationLikeObject = {};
+  let consumed = "";
+
+  for (const [part, amount, unitName] of text.matchAll(DURATION_PART)) {
+    const unit = DURATION_UNITS[unitName] ?? DURATION_UNITS[unitName.toLowerCase()];
+    if (!unit) return null;
+    values[unit] = (values[unit] ?? 0) + Number(amount);
+    consumed += part;
+  }
+
+  // Every non-space character must belong to a number/unit pair
+  if (!consumed || consumed.replace(/\s/g, "") !== text.replace(/\s/g, "")) return null;
+  return Duration.fromObject(values);
+}
+
+/**
+ * Date arithmetic: `date ± "duration"`, `"duration" + date`, `date ± milliseconds` and
+ * `date - date` (milliseconds between the two). Returns undefined when the operands are not date arithmetic.
+ */
+export function applyDateArithmetic(op: ArithmeticOp, left: any, right: any): any {
+  if (op !== "+" && op !== "-") return undefined;
+
+  if (isDate(left)) {
+    const date = toDateTime(left);
+    if (isDate(right)) {
+      return op === "-" ? date.toMillis() - toDateTime(right).toMillis() : undefined;
+    }
+    const duration = toDuration(right);
+    if (!duration) return undefined;
+    return op === "+" ? date.plus(duration) : date.minus(duration);
+  }
+
+  if (isDate(right) && op === "+") {
+    const duration = toDuration(left);
+    return duration ? toDateTime(right).plus(duration) : undefined;
+  }
+
+  return undefined;
+}
+
+function toDuration(value: any): Duration | null {
+  if (Duration.isDuration(value)) return value;
+  if (typeof value === "number") return Duration.fromMillis(value);
+  if (typeof value === "string") return parseDuration(value);
+  return null;
+}
+
+/** Moment.js format tokens, longest first, plus `[escaped text]`. */
+const MOMENT_TOKENS =
+  /\[[^\]]*\]|YYYY|YY|MMMM|MMM|MM|M|Do|DDDD|DDD|DD|D|dddd|ddd|dd|d|HH|H|hh|h|mm|m|ss|s|SSS|A|a|ZZ|Z|X|x/g;
+
+/** Moment.js tokens which map directly onto a luxon token. */
+const LUXON_EQUIVALENTS: Record<string, string> = {
+  YYYY: "yyyy",
+  YY: "yy",
+  MMMM: "MMMM",
+  MMM: "MMM",
+  MM: "MM",
+  M: "M",
+  DDDD: "ooo",
+  DDD: "o",
+  DD: "dd",
+  D: "d",
+  dddd: "cccc",
+  ddd: "ccc",
+  HH: "HH",
+  H: "H",
+  hh: "hh",
+  h: "h",
+  mm: "mm",
+  m: "m",
+  ss: "ss",
+  s: "s",
+  SSS: "SSS",
+  A: "a",
+  Z: "ZZ",
+  ZZ: "ZZZ",
+};
+
+/**
+ * Format a date with a Moment.js format string, as Obsidian does (e.g. `YYYY-MM-DD`).
+ */
+export function formatMoment(date: DateTime, format: string): string {
+  let result = "";
+  let last = 0;
+
+  for (const match of format.matchAll(MOMENT_TOKENS)) {
+    const index = match.index ?? 0;
+    result += format.substring(last, index);
+    result += formatToken(date, match[0]);
+    last = index + match[0].length;
+  }
+
+  return result + format.substring(last);
+}
+
+function formatToken(date: DateTime, token: string): string {
+  if (token.startsWith("[")) {
+    return token.substring(1, token.length - 1);
+  }
+
+  const luxonToken = LUXON_EQUIVALENTS[token];
+  if (luxonToken) {
+    return date.toFormat(luxonToken);
+  }
+
+  switch (token) {
+    case "Do":
+      return ordinal(date.day);
+    case "dd":
+      return date.toFormat("ccc").substring(0, 2);
+    case "d":
+      // Moment counts weekdays from Sunday = 0, luxon from Monday = 1
+      return String(date.weekday % 7);
+    case "a":
+      return date.toFormat("a").toLowerCase();
+    case "X":
+      return String(Math.floor(date.toSeconds()));
+    case "x":
+      return String(date.toMillis());
+    default:
+      return token;
+  }
+}
+
+function ordinal(day: number): string {
+  const remainder = day % 100;
+  if (remainder >= 11 && remainder <= 13) return `${day}th`;
+  switch (day % 10) {
+    case 1:
+      return `${day}st`;
+    case 2:
+      return `${day}nd`;
+    case 3:
+      return `${day}rd`;
+    default:
+      return `${day}th`;
+  }
+}
@@ -0,0 +1,82 @@
+import type { Span } from "./ast";
+
+/** What kind of problem an ExpressionError reports. */
+export type ErrorCode =
+  /** The expression could not be parsed. */
+  | "syntax"
+  /** A global function or method which does not exist. */
+  | "unknown-function"
+  /** A method called on a value of a type which does not support it. */
+  | "type-mismatch"
+  /** A function called with the wrong number or kind of arguments. */
+  | "invalid-argument"
+  /** A formula which (indirectly) references itself. */
+  | "circular-reference"
+  /** A reference to a formula the base does not define. */
+  | "undefined-formula"
+  /** Any other failure while evaluating, including unexpected exceptions. */
+  | "evaluation";
+
+/** An error raised while parsing or evaluating a Bases expression. */
+export class ExpressionError extends Error {
+  /** The part of the source expression the error refers to, if known. */
+  public span?: Span;
+  public code: ErrorCode;
+
+  constructor(message: string, span?: Span, code: ErrorCode = "evaluation") {
+    super(message);
+    this.name = "ExpressionError";
+    this.span = span;
+    this.code = code;
+  }
+}
+
+/** A failed evaluation as plain data, ready to be shown next to the expression. */
+export interface EvaluationError {
+  code: ErrorCode;
+  message: string;
+  span?: Span;
+}
+
+/** The outcome of evaluating an expression: either its value or the error it raised. */
+export type EvaluationResult = { ok: true; value: any } | { ok: false; error: EvaluationError };
+
+/** Turn anything thrown while parsing or evaluating into an EvaluationError. */
+export function toEvaluationError(error: unknown): EvaluationError {
+  if (error instanceof ExpressionError) {
+    return { code: error.code, message: error.message, span: error.span };
+  }
+  return {
+    code: "evaluation",
+    message: error instanceof Error ? error.message : String(error),
+  };
+}
+
+/**
+ * Check the number of arguments passed to a function or method.
+ * `max` defaults to `min`; pass Infinity for variadic functions.
+ */
+export function checkArity(name: string, args: any[], min: number, max: number = min) {
+  if (args.length >= min && args.length <= max) return;
+
+  const expected =
+    min === max ? `${min}` : max === Infinity ? `at least ${min}` : `${min} to ${max}`;
+  throw new ExpressionError(
+    `${name}() expects ${expected} argument${expected === "1" ? "" : "s"} but got ${args.length}`,
+    undefined,
+    "invalid-argument"
+  );
+}
+
+/** Read an integer argument such as a slice index, raising an error for non-numbers. */
+export function expectInteger(name: string, value: any): number {
+  const number = Number(value);
+  if (value === null || value === undefined || !Number.isFinite(number)) {
+    throw new ExpressionError(
+      `${name}() expects a number but got '${value ?? "null"}'`,
+      undefined,
+      "invalid-argument"
+    );
+  }
+  return Math.trunc(number);
+}
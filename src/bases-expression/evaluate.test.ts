@@ -0,0 +1,180 @@
+import { DateTime, Duration } from "luxon";
+import { describe, expect, it } from "vitest";
+import { Link } from "../dataview-parser/normalize";
+import { ExpressionError } from "./errors";
+import { evaluate, type EvaluationContext } from "./evaluate";
+import { parseExpression } from "./expression-parse";
+import { displayString } from "./values";
+
+const note = {
+  file: { name: "Note.md", path: "Folder/Note.md", links: [Link.file("Other")] },
+  count: 3,
+  price: "2.5",
+  title: "Plan",
+  done: false,
+  tags: ["a", "b"],
+  due: new Date(2025, 4, 27),
+  meta: { owner: "me" },
+  empty: null,
+  huge: 1e21,
+  vast: 1.5e300,
+};
+const other = { file: { name: "Other.md", path: "Other.md", links: [Link.file("Folder/Note")] } };
+
+const context: EvaluationContext = {
+  file: note,
+  formula: (name) => (name === "total" ? 10 : undefined),
+  files: [note, other],
+};
+
+function run(source: string): any {
+  return evaluate(parseExpression(source), context);
+}
+
+describe("evaluate", () => {
+  describe("literals and lookups", () => {
+    it.each<[string, any]>([
+      ["1.5", 1.5],
+      ['"text"', "text"],
+      ["true", true],
+      ["null", null],
+      ["[1, \"a\"]", [1, "a"]],
+      ['{"a": 1}', { a: 1 }],
+      ["count", 3],
+      ["note.title", "Plan"],
+      ['note["title"]', "Plan"],
+      ["tags[1]", "b"],
+      ["tags[5]", undefined],
+      ["meta.owner", "me"],
+      ["meta.missing", undefined],
+      ["missing", undefined],
+      ["formula.total", 10],
+      ["file.name", "Note.md"],
+      ["title.length", 4],
+      ["tags.length", 2],
+    ])("%s", (source, expected) => {
+      expect(run(source)).toEqual(expected);
+    });
+
+    it("reads date properties as dates", () => {
+      expect(run("due")).toBeInstanceOf(DateTime);
+      expect(run("due.year")).toBe(2025);
+    });
+
+    it("reads file tags from the note's tags", () => {
+      const tagged = { file: { name: "Tagged.md", path: "Tagged.md" }, tags: ["a"] };
+      const evaluateOn = (source: string) => evaluate(parseExpression(source), { ...context, file: tagged });
+      expect(evaluateOn("file.tags")).toEqual(["a"]);
+      tagged.tags = ["b"];
+      expect(evaluateOn("file.tags")).toEqual(["b"]);
+      expect(evaluateOn('file.hasTag("b")')).toBe(true);
+    });
+
+    it("reads files as links", () => {
+      expect(run("file.links")).toEqual([Link.file("Other")]);
+      expect(displayString(run("file.backlinks"))).toBe("Other");
+    });
+  });
+
+  describe("arithmetic", () => {
+    it.each<[string, any]>([
+      ["1 + 2", 3],
+      ["count * 2", 6],
+      ["price * 2", 5],
+      ["7 % 4", 3],
+      ["1 / 4", 0.25],
+      ["-count", -3],
+      ["2 + 3 * 4", 14],
+      ["(2 + 3) * 4", 20],
+      ["(1.005).round(2)", 1.01],
+      ["(1234.5678).round(1)", 1234.6],
+      ["(1250).round(-2)", 1300],
+      ["(0.0000001).round(2)", 0],
+      ["(0.0000123456).round(7)", 0.0000123],
+      ["huge.round(2)", 1e21],
+      ["vast.round(10)", 1.5e300],
+      ['"a" + 1', "a1"],
+      ['title + " " + count', "Plan 3"],
+      ["missing + 1", null],
+      ["-missing", null],
+      ['"abc" * 2', null],
+    ])("%s", (source, expected) => {
+      expect(run(source)).toEqual(expected);
+    });
+
+    it("adds durations to dates", () => {
+      expect(displayString(run('due + "1 day"'))).toBe("2025-05-28");
+      expect(displayString(run('date("2025-05-27") - "2 weeks"'))).toBe("2025-05-13");
+    });
+
+    it("subtracts dates into milliseconds", () => {
+      expect(run('date("2025-05-28") - date("2025-05-27")')).toBe(Duration.fromObject({ days: 1 }).toMillis());
+    });
+  });
+
+  describe("comparisons", () => {
+    it.each<[string, boolean]>([
+      ["count == 3", true],
+      ['count == "3"', true],
+      ["count != 3", false],
+      ["count > 2", true],
+      ["count >= 4", false],
+      ["count < 3", false],
+      ["count <= 3", true],
+      ['title == "Plan"', true],
+      ['title == "plan"', false],
+      ['due == "2025-05-27"', true],
+      ['due > "2025-01-01"', true],
+      ["done == false", true],
+      ['tags == ["a", "b"]', true],
+      ["empty == null", true],
+      ["missing == null", true],
+      ["missing >= 0", false],
+      ['file.links[0] == link("Other")', true],
+    ])("%s", (source, expected) => {
+      expect(run(source)).toBe(expected);
+    });
+  });
+
+  describe("logic", () => {
+    it.each<[string, boolean]>([
+      ["count > 1 && title", true],
+      ["done && true", false],
+      ["done || tags", true],
+      ["empty || missing", false],
+      ["!done", true],
+      ["!tags", false],
+      ['!""', true],
+      ["!0", true],
+      ["count > 1 && !(done || empty)", true],
+    ])("%s", (source, expected) => {
+      expect(run(source)).toBe(expected);
+    });
+
+    it("doesn't evaluate the right side once the left side decides", () => {
+      expect(run("done && nope()")).toBe(false);
+      expect(run("tags || nope()")).toBe(true);
+    });
+  });
+
+  describe("functions and methods", () => {
+    it.each<[string, any]>([
+      ['if(done, "yes", "no")', "no"],
+      ["max(1, count, 2)", 3],
+      ['tags.contains("b")', true],
+      ['title.lower()', "plan"],
+      ['tags.join("-")', "a-b"],
+      ['file.hasLink("Other")', true],
+    ])("%s", (source, expected) => {
+      expect(run(source)).toEqual(expected);
+    });
+  });
+
+  it("throws ExpressionErrors for unknown functions", () => {
+    expect(() => run("nope()")).toThrow(ExpressionError);
+  });
+
+  it.each(["now(1)", 'today("x")', "date()", "file.inFolder()"])("reports the wrong number of arguments in %s", (source) => {
+    expect(() => run(source)).toThrow(/argument/);
+  });
+});
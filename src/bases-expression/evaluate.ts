@@ -0,0 +1,343 @@
+import type { ArithmeticOp, Expression, Span } from "./ast";
+import { DateTime } from "luxon";
+import { applyDateArithmetic, DATE_FIELDS, isDate, toDateTime } from "./dates";
+import { ExpressionError, toEvaluationError, type EvaluationResult } from "./errors";
+import { BasesFile } from "./files";
+import { GLOBAL_FUNCTIONS } from "./functions";
+import { callMethod, ownEntry } from "./methods";
+import { coerce, compareValues, displayString, isTruthy, kindOf } from "./values";
+
+/** Everything an expression needs to know about the note it is evaluated against. */
+export interface EvaluationContext {
+  /** The note (mock file) being evaluated. */
+  file: any;
+  /** Resolve the value of `formula.<name>` for this note. */
+  formula(name: string): any;
+  /** Every note in the vault, used by `file()`, `link.linksTo()` and `file.backlinks`. */
+  files?: any[];
+}
+
+/** An expression compiled into a function of the note it is evaluated against. */
+export type CompiledExpression = (context: EvaluationContext) => any;
+
+/** Compiled functions keyed by the node they were compiled from. */
+const compiledExpressions = new WeakMap<Expression, CompiledExpression>();
+
+/**
+ * Evaluate a parsed expression against a note.
+ * Throws an ExpressionError for unknown functions and other evaluation failures.
+ */
+export function evaluate(node: Expression, context: EvaluationContext): any {
+  return compile(node)(context);
+}
+
+/**
+ * Compile a parsed expression into a function, so that evaluating it over many notes doesn't
+ * walk the syntax tree each time. Compiling the same node again returns the same function.
+ */
+export function compile(node: Expression): CompiledExpression {
+  let compiled = compiledExpressions.get(node);
+  if (!compiled) {
+    compiled = compileNode(node);
+    compiledExpressions.set(node, compiled);
+  }
+  return compiled;
+}
+
+function compileNode(node: Expression): CompiledExpression {
+  const { span } = node;
+
+  switch (node.type) {
+    case "literal": {
+      const { value } = node;
+      return () => value;
+    }
+
+    case "regex": {
+      const { pattern, flags } = node;
+      // A fresh RegExp per evaluation, since `g` patterns carry lastIndex state
+      return () => new RegExp(pattern, flags);
+    }
+
+    case "list": {
+      const elements = node.elements.map(compile);
+      return (context) => elements.map((element) => element(context));
+    }
+
+    case "object": {
+      const entries = node.entries.map((entry) => [entry.key, compile(entry.value)] as const);
+      return (context) => {
+        const result: Record<string, any> = {};
+        for (const [key, value] of entries) {
+          result[key] = value(context);
+        }
+        return result;
+      };
+    }
+
+    case "identifier": {
+      const { name } = node;
+      return (context) => resolveIdentifier(name, context);
+    }
+
+    case "member": {
+      const { property } = node;
+      if (node.object.type === "identifier") {
+        switch (node.object.name) {
+          case "formula":
+            return (context) => withSpan(span, () => context.formula(property));
+          case "note":
+            return (context) => fromProperty(context.file[property]);
+          case "file":
+            // `file.file` is the legacy way of passing the file itself to a function
+            if (property === "file") {
+              return (context) => new BasesFile(context.file, context.files);
+            }
+            break;
+        }
+      }
+      const object = compile(node.object);
+      return (context) => getMember(object(context), property);
+    }
+
+    case "index": {
+      const index = compile(node.index);
+      if (node.object.type === "identifier" && node.object.name === "formula") {
+        return (context) => {
+          const name = index(context);
+          if (name === null || name === undefined) return undefined;
+          return withSpan(span, () => context.formula(String(name)));
+        };
+      }
+      const object = compile(node.object);
+      return (context) => getIndex(object(context), index(context));
+    }
+
+    case "call": {
+      if (node.name === "if") {
+        const [condition, whenTrue, whenFalse] = node.args.map(compile);
+        if (!condition || !whenTrue) {
+          return () => {
+            throw new ExpressionError(
+              "if() requires a condition and a result",
+              span,
+              "invalid-argument"
+            );
+          };
+        }
+        return (context) => {
+          if (isTruthy(condition(context))) return whenTrue(context);
+          return whenFalse ? whenFalse(context) : null;
+        };
+      }
+
+      const { name } = node;
+      const fn = ownEntry(GLOBAL_FUNCTIONS, name);
+      if (!fn) {
+        return () => {
+          throw new ExpressionError(`Unknown function '${name}'`, span, "unknown-function");
+        };
+      }
+      const args = node.args.map(compile);
+      return (context) => {
+        const values = args.map((arg) => arg(context));
+        return withSpan(span, () => fn(context, values));
+      };
+    }
+
+    case "method": {
+      const { name } = node;
+      const receiver = compile(node.receiver);
+      const args = node.args.map(compile);
+      return (context) => {
+        const value = receiver(context);
+        const values = args.map((arg) => arg(context));
+        return withSpan(span, () => callMethod(value, name, values, context, span));
+      };
+    }
+
+    case "unary": {
+      const argument = compile(node.argument);
+      if (node.op === "!") return (context) => !isTruthy(argument(context));
+      return (context) => {
+        const value = argument(context);
+        return isMissing(value) ? null : numericResult(-toNumber(value));
+      };
+    }
+
+    case "binary": {
+      const left = compile(node.left);
+      const right = compile(node.right);
+      const { op } = node;
+      switch (op) {
+        case "==":
+        case "!=":
+        case ">":
+        case ">=":
+        case "<":
+        case "<=":
+          return (context) => compareValues(op, left(context), right(context));
+        default:
+          return (context) => applyArithmetic(op, left(context), right(context));
+      }
+    }
+
+    case "logical": {
+      const left = compile(node.left);
+      const right = compile(node.right);
+      if (node.op === "&&") {
+        return (context) => isTruthy(left(context)) && isTruthy(right(context));
+      }
+      return (context) => isTruthy(left(context)) || isTruthy(right(context));
+    }
+  }
+}
+
+/** Evaluate an expression, returning the error it raises as data instead of throwing it. */
+export function tryEvaluate(node: Expression, context: EvaluationContext): EvaluationResult {
+  try {
+    return { ok: true, value: evaluate(node, context) };
+  } catch (error) {
+    return { ok: false, error: toEvaluationError(error) };
+  }
+}
+
+/**
+ * The operands a node combines directly: both sides of an operator, the receiver and arguments
+ * of a method call, or the arguments of a function call. Other nodes have none.
+ */
+export function operandsOf(node: Expression): Expression[] {
+  switch (node.type) {
+    case "binary":
+    case "logical":
+      return [node.left, node.right];
+    case "unary":
+      return [node.argument];
+    case "method":
+      return [node.receiver, ...node.args];
+    case "call":
+      return node.args;
+    default:
+      return [];
+  }
+}
+
+/** Run a function or method, attributing errors it raises without a position to the call. */
+function withSpan<T>(span: Span, run: () => T): T {
+  try {
+    return run();
+  } catch (error) {
+    if (!(error instanceof ExpressionError)) {
+      throw new ExpressionError(error instanceof Error ? error.message : String(error), span);
+    }
+    if (!error.span) error.span = span;
+    throw error;
+  }
+}
+
+/** Resolve a bare identifier: a namespace or a note property. */
+function resolveIdentifier(name: string, context: EvaluationContext): any {
+  switch (name) {
+    case "file":
+      return new BasesFile(context.file, context.files);
+    case "note":
+      return context.file;
+    default:
+      return fromProperty(context.file[name]);
+  }
+}
+
+/** Convert a raw property value from the note into an expression value (JS Dates become DateTimes). */
+function fromProperty(value: any): any {
+  if (value instanceof Date) return DateTime.fromJSDate(value);
+  if (Array.isArray(value)) return value.map(fromProperty);
+  return value;
+}
+
+/** Read a field from a value; missing values propagate as undefined. */
+function getMember(value: any, property: string): any {
+  if (value === null || value === undefined) return undefined;
+
+  if (value instanceof BasesFile) return fromProperty(value.get(property));
+
+  if (value instanceof DateTime) {
+    const field = DATE_FIELDS[property];
+    return field ? field(value) : undefined;
+  }
+
+  if (property === "length" && (typeof value === "string" || Array.isArray(value))) {
+    return value.length;
+  }
+
+  if (typeof value === "object" && !Array.isArray(value)) {
+    return Object.prototype.hasOwnProperty.call(value, property)
+      ? fromProperty(value[property])
+      : undefined;
+  }
+
+  return undefined;
+}
+
+/** Index into a list or string by position, or into an object by key. Out of range gives undefined. */
+function getIndex(value: any, index: any): any {
+  if (value === null || value === undefined || index === null || index === undefined) {
+    return undefined;
+  }
+
+  if (Array.isArray(value) || typeof value === "string") {
+    const position = Number(index);
+    return Number.isInteger(position) ? value[position] : undefined;
+  }
+
+  return getMember(value, String(index));
+}
+
+/** Numeric value for arithmetic: dates count as epoch milliseconds, other non-numbers as NaN. */
+function toNumber(value: any): number {
+  switch (kindOf(value)) {
+    case "date":
+      return toDateTime(value).toMillis();
+    case "duration":
+      return value.toMillis();
+    default:
+      return coerce(value, "number") ?? NaN;
+  }
+}
+
+function applyArithmetic(op: ArithmeticOp, left: any, right: any): any {
+  if (isDate(left) || isDate(right)) {
+    const result = applyDateArithmetic(op, left, right);
+    if (result !== undefined) return result;
+  }
+
+  if (op === "+" && (typeof left === "string" || typeof right === "string")) {
+    return displayString(left) + displayString(right);
+  }
+
+  // Arithmetic with a missing value is missing rather than NaN
+  if (isMissing(left) || isMissing(right)) return null;
+
+  const a = toNumber(left);
+  const b = toNumber(right);
+  switch (op) {
+    case "+":
+      return numericResult(a + b);
+    case "-":
+      return numericResult(a - b);
+    case "*":
+      return numericResult(a * b);
+    case "/":
+      return numericResult(a / b);
+    case "%":
+      return numericResult(a % b);
+  }
+}
+
+function isMissing(value: any): boolean {
+  return value === null || value === undefined || Number.isNaN(value);
+}
+
+/** Non-numeric operands such as `"abc" * 2` produce a missing value. */
+function numericResult(value: number): number | null {
+  return Number.isNaN(value) ? null : value;
+}
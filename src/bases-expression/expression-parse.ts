@@ -0,0 +1,290 @@
+import type {
+  Expression,
+  LogicalOp,
+  Span,
+  BinaryExpression,
+} from "./ast";
+import { ExpressionError } from "./errors";
+import { tokenize, type Token } from "./tokenizer";
+
+/** Binding power of each binary operator; higher binds tighter. */
+const BINARY_PRECEDENCE: Record<string, number> = {
+  "||": 1,
+  "&&": 2,
+  "==": 3,
+  "!=": 3,
+  "<": 4,
+  "<=": 4,
+  ">": 4,
+  ">=": 4,
+  "+": 5,
+  "-": 5,
+  "*": 6,
+  "/": 6,
+  "%": 6,
+};
+
+/**
+ * Parse a Bases formula or filter expression into an AST.
+ * Throws an ExpressionError pointing at the offending token if the expression is malformed.
+ */
+export function parseExpression(source: string): Expression {
+  return new ExpressionParser(tokenize(source)).parse();
+}
+
+/** Precedence-climbing parser over the token list of a single expression. */
+class ExpressionParser {
+  private pos = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): Expression {
+    const expression = this.parseBinary(1);
+    const trailing = this.peek();
+    if (trailing.type !== "eof") {
+      throw new ExpressionError(
+        `Unexpected '${trailing.value}' after end of expression`,
+        trailing.span,
+        "syntax"
+      );
+    }
+    return expression;
+  }
+
+  /** Parse binary operators whose precedence is at least `minPrecedence`. */
+  private parseBinary(minPrecedence: number): Expression {
+    let left = this.parseUnary();
+
+    while (true) {
+      const token = this.peek();
+      const precedence =
+        token.type === "punctuation" ? BINARY_PRECEDENCE[token.value] : undefined;
+      if (precedence === undefined || precedence < minPrecedence) break;
+
+      this.next();
+      const right = this.parseBinary(precedence + 1);
+      const span = spanOf(left.span, right.span);
+
+      if (token.value === "&&" || token.value === "||") {
+        left = { type: "logical", op: token.value as LogicalOp, left, right, span };
+      } else {
+        left = {
+          type: "binary",
+          op: token.value as BinaryExpression["op"],
+          left,
+          right,
+          span,
+        };
+      }
+    }
+
+    return left;
+  }
+
+  /** Prefix operators bind tighter than any binary operator. */
+  private parseUnary(): Expression {
+    const token = this.peek();
+    if (token.type === "punctuation" && (token.value === "!" || token.value === "-")) {
+      this.next();
+      const argument = this.parseUnary();
+      return {
+        type: "unary",
+        op: token.value,
+        argument,
+        span: spanOf(token.span, argument.span),
+      };
+    }
+    return this.parsePostfix();
+  }
+
+  /** Parse member accesses, indexing and method calls chained onto a primary expression. */
+  private parsePostfix(): Expression {
+    let expression = this.parsePrimary();
+
+    while (this.isPunctuation(".") || this.isPunctuation("[")) {
+      if (this.consumePunctuation("[")) {
+        const index = this.parseBinary(1);
+        const close = this.expect("punctuation", "']'", "]");
+        expression = {
+          type: "index",
+          object: expression,
+          index,
+          span: spanOf(expression.span, close.span),
+        };
+        continue;
+      }
+
+      this.next();
+      const name = this.expect("identifier", "property or method name");
+
+      if (this.isPunctuation("(")) {
+        const { args, end } = this.parseArguments();
+        expression = {
+          type: "method",
+          receiver: expression,
+          name: name.value,
+          args,
+          span: { start: expression.span.start, end },
+        };
+      } else {
+        expression = {
+          type: "member",
+          object: expression,
+          property: name.value,
+          span: spanOf(expression.span, name.span),
+        };
+      }
+    }
+
+    return expression;
+  }
+
+  private parsePrimary(): Expression {
+    const token = this.next();
+
+    switch (token.type) {
+      case "number":
+        return { type: "literal", value: Number(token.value), span: token.span };
+      case "string":
+        return { type: "literal", value: token.value, span: token.span };
+      case "regex":
+        return this.parseRegex(token);
+      case "identifier":
+        return this.parseIdentifier(token);
+      case "punctuation":
+        if (token.value === "(") {
+          const inner = this.parseBinary(1);
+          const close = this.expect("punctuation", "')'", ")");
+          return { ...inner, span: spanOf(token.span, close.span) };
+        }
+        if (token.value === "[") {
+          const elements: Expression[] = [];
+          if (!this.isPunctuation("]")) {
+            do {
+              elements.push(this.parseBinary(1));
+            } while (this.consumePunctuation(","));
+          }
+          const close = this.expect("punctuation", "']'", "]");
+          return { type: "list", elements, span: spanOf(token.span, close.span) };
+        }
+        if (token.value === "{") {
+          return this.parseObject(token);
+        }
+        return this.fail(token);
+      default:
+        return this.fail(token);
+    }
+  }
+
+  /** Literal keywords, global function calls and plain identifiers. */
+  private parseIdentifier(token: Token): Expression {
+    switch (token.value) {
+      case "true":
+        return { type: "literal", value: true, span: token.span };
+      case "false":
+        return { type: "literal", value: false, span: token.span };
+      case "null":
+        return { type: "literal", value: null, span: token.span };
+    }
+
+    if (this.isPunctuation("(")) {
+      const { args, end } = this.parseArguments();
+      return {
+        type: "call",
+        name: token.value,
+        args,
+        span: { start: token.span.start, end },
+      };
+    }
+
+    return { type: "identifier", name: token.value, span: token.span };
+  }
+
+  /** Validate a regex literal up front so a bad pattern is reported where it is written. */
+  private parseRegex(token: Token): Expression {
+    const flags = token.flags ?? "";
+    try {
+      new RegExp(token.value, flags);
+    } catch (error) {
+      // The engine's message already names the pattern, e.g. "Invalid regular expression: /(/: Unterminated group"
+      throw new ExpressionError((error as Error).message, token.span, "syntax");
+    }
+    return { type: "regex", pattern: token.value, flags, span: token.span };
+  }
+
+  /** Parse the entries of an object literal after its opening brace. */
+  private parseObject(open: Token): Expression {
+    const entries: { key: string; value: Expression }[] = [];
+    if (!this.isPunctuation("}")) {
+      do {
+        const key = this.peek();
+        if (key.type !== "string" && key.type !== "identifier") {
+          throw new ExpressionError("Expected an object key", key.span, "syntax");
+        }
+        this.next();
+        this.expect("punctuation", "':'", ":");
+        entries.push({ key: key.value, value: this.parseBinary(1) });
+      } while (this.consumePunctuation(","));
+    }
+    const close = this.expect("punctuation", "'}'", "}");
+    return { type: "object", entries, span: spanOf(open.span, close.span) };
+  }
+
+  /** Parse a parenthesised, comma separated argument list. */
+  private parseArguments(): { args: Expression[]; end: number } {
+    this.expect("punctuation", "'('", "(");
+    const args: Expression[] = [];
+    if (!this.isPunctuation(")")) {
+      do {
+        args.push(this.parseBinary(1));
+      } while (this.consumePunctuation(","));
+    }
+    const close = this.expect("punctuation", "')'", ")");
+    return { args, end: close.span.end };
+  }
+
+  private peek(): Token {
+    return this.tokens[this.pos];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.pos];
+    if (token.type !== "eof") this.pos++;
+    return token;
+  }
+
+  private isPunctuation(value: string): boolean {
+    const token = this.peek();
+    return token.type === "punctuation" && token.value === value;
+  }
+
+  private consumePunctuation(value: string): boolean {
+    if (!this.isPunctuation(value)) return false;
+    this.next();
+    return true;
+  }
+
+  private expect(type: Token["type"], description: string, value?: string): Token {
+    const token = this.peek();
+    if (token.type !== type || (value !== undefined && token.value !== value)) {
+      const found = token.type === "eof" ? "end of expression" : `'${token.value}'`;
+      throw new ExpressionError(
+        `Expected ${description} but found ${found}`,
+        token.span,
+        "syntax"
+      );
+    }
+    return this.next();
+  }
+
+  private fail(token: Token): never {
+    if (token.type === "eof") {
+      throw new ExpressionError("Unexpected end of expression", token.span, "syntax");
+    }
+    throw new ExpressionError(`Unexpected '${token.value}'`, token.span, "syntax");
+  }
+}
+
+function spanOf(start: Span, end: Span): Span {
+  return { start: start.start, end: end.end };
+}
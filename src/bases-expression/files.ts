@@ -0,0 +1,184 @@
+import { Link } from "../dataview-parser/normalize";
+import type { EvaluationContext } from "./evaluate";
+
+/**
+ * The `file` of a note as seen by expressions. Wraps the note so that file methods such as
+ * `file.hasTag()` can reach both the file metadata and the note's own properties.
+ */
+export class BasesFile {
+  /**
+   * @param note The note this file belongs to
+   * @param vault Every note in the vault, used to compute backlinks
+   */
+  constructor(public note: any, public vault: any[] = []) {}
+
+  /** The raw file metadata (name, path, folder, tags, links, ...). */
+  get meta(): any {
+    return this.note.file ?? {};
+  }
+
+  /**
+   * Read a `file.<property>` field; links and backlinks are returned as Link values, and tags are
+   * read when asked for so they follow edits of the note's `tags` property.
+   */
+  public get(property: string): any {
+    switch (property) {
+      case "tags":
+        return this.tags();
+      case "links":
+        return this.links();
+      case "backlinks":
+        return this.backlinks();
+      default:
+        return this.meta[property];
+    }
+  }
+
+  /** The vault path of the file, falling back to its name. */
+  public path(): string {
+    return String(this.meta.path ?? this.meta.name ?? "");
+  }
+
+  /** Tags of the file, falling back to the note's `tags` property. */
+  public tags(): string[] {
+    const tags = Array.isArray(this.meta.tags) ? this.meta.tags : this.note.tags;
+    return Array.isArray(tags) ? tags.map(String) : [];
+  }
+
+  /** Outgoing links of the file. */
+  public links(): Link[] {
+    const links = Array.isArray(this.meta.links) ? this.meta.links : [];
+    return links.map(toLink).filter((link: Link | null): link is Link => link !== null);
+  }
+
+  /** Links from every other note in the vault which links to this file. */
+  public backlinks(): Link[] {
+    const path = this.path();
+    const actual = linkKey(path);
+    if (actual === "") return [];
+
+    // A link may leave out leading folders, so every trailing part of the path is a target
+    const index = backlinkIndexes.get(this.vault) ?? indexBacklinks(this.vault);
+    const parts = actual.split("/");
+    const sources = new Set<number>();
+    for (let start = 0; start < parts.length; start++) {
+      for (const position of index.get(parts.slice(start).join("/")) ?? []) sources.add(position);
+    }
+
+    return [...sources]
+      .sort((a, b) => a - b)
+      .map((position) => this.vault[position])
+      .filter((note) => note !== this.note && note?.file?.path !== path)
+      .map((note) => new BasesFile(note, this.vault).asLink());
+  }
+
+  /** A link to this file. */
+  public asLink(display?: string): Link {
+    return Link.file(this.path(), false, display);
+  }
+
+  public toString(): string {
+    return this.path();
+  }
+}
+
+/** Positions of the notes linking to each link target, per vault. */
+const backlinkIndexes = new WeakMap<any[], Map<string, number[]>>();
+
+/**
+ * Index which notes of a vault link to which targets, so that backlinks are looked up rather
+ * than found by scanning every note. Built on first use; build it again when links change.
+ */
+export function indexBacklinks(vault: any[]): Map<string, number[]> {
+  const index = new Map<string, number[]>();
+  vault.forEach((note, position) => {
+    for (const link of new BasesFile(note, vault).links()) {
+      const target = linkKey(link.path);
+      if (target === "") continue;
+      const sources = index.get(target);
+      if (!sources) {
+        index.set(target, [position]);
+      } else if (sources[sources.length - 1] !== position) {
+        sources.push(position);
+      }
+    }
+  });
+  backlinkIndexes.set(vault, index);
+  return index;
+}
+
+/**
+ * Convert a link-like value into a Link: Link values are returned as is, files become links to
+ * themselves and strings may be plain paths or `[[path#subpath|display]]` wikilinks.
+ */
+export function toLink(value: any): Link | null {
+  if (value instanceof Link) return value;
+  if (value instanceof BasesFile) return value.asLink();
+  if (value === null || value === undefined) return null;
+
+  const text = String(value).trim();
+  const embed = text.startsWith("!");
+  const inner = text.replace(/^!/, "").replace(/^\[\[|\]\]$/g, "");
+  const separator = inner.indexOf("|");
+  if (separator === -1) return Link.infer(inner, embed);
+  return Link.infer(inner.substring(0, separator), embed, inner.substring(separator + 1));
+}
+
+/**
+ * Whether a link target resolves to the file at `path`. Like Obsidian, a target may leave out the
+ * folder and extension, so `Books`, `Library/Books` and `Library/Books.md` all point to
+ * `/Library/Books.md`. Comparison is case-insensitive.
+ */
+export function linkPointsTo(target: string, path: string): boolean {
+  const wanted = linkKey(target);
+  const actual = linkKey(path);
+  if (wanted === "" || actual === "") return false;
+  return actual === wanted || actual.endsWith(`/${wanted}`);
+}
+
+/**
+ * Whether two links point to the same file. Either side may leave out the folder, so the
+ * targets are compared in both directions.
+ */
+export function sameTarget(left: Link, right: Link): boolean {
+  return linkPointsTo(left.path, right.path) || linkPointsTo(right.path, left.path);
+}
+
+/** Find the note in the vault a link points to. */
+export function resolveFile(link: Link, context: EvaluationContext): BasesFile | null {
+  const vault = context.files ?? [];
+  const note = vault.find((candidate) => linkPointsTo(link.path, candidate?.file?.path ?? ""));
+  return note ? new BasesFile(note, vault) : null;
+}
+
+/** Strip a leading `#` from a tag. Tags compare case-insensitively. */
+export function normalizeTag(tag: string): string {
+  return String(tag).trim().replace(/^#/, "").toLowerCase();
+}
+
+/** Whether `tag` is `wanted` or nested below it, so `#a` matches both `#a` and `#a/b`. */
+export function tagMatches(tag: string, wanted: string): boolean {
+  const actual = normalizeTag(tag);
+  const target = normalizeTag(wanted);
+  return actual === target || actual.startsWith(`${target}/`);
+}
+
+/** Normalize a folder path so that `/Books/`, `Books` and `Books/` compare equal. */
+export function normalizeFolder(folder: string): string {
+  return String(folder).trim().replace(/^\/+|\/+$/g, "");
+}
+
+/** Normalize a link target so that `[[Note]]`, `[[Note#Heading]]`, `Note.md` and `Note` compare equal. */
+export function normalizeLinkTarget(target: string): string {
+  return String(target)
+    .trim()
+    .replace(/^\[\[|\]\]$/g, "")
+    .replace(/\|.*$/, "")
+    .replace(/#.*$/, "")
+    .replace(/\.md$/, "");
+}
+
+/** A link target or path as compared by `linkPointsTo`: normalized, without leading slashes, lower case. */
+function linkKey(target: string): string {
+  return normalizeLinkTarget(target).replace(/^\/+/, "").toLowerCase();
+}
@@ -0,0 +1,318 @@
+import type { Expression, Span } from "./ast";
+import { ExpressionError, type ErrorCode } from "./errors";
+import { parseExpression } from "./expression-parse";
+
+/** A problem found while analyzing the formulas of a base. */
+export interface FormulaDiagnostic {
+  /** The formula the problem was found in. */
+  formula: string;
+  code: Extract<ErrorCode, "circular-reference" | "undefined-formula" | "syntax">;
+  message: string;
+  /** Where in the formula's source the problem is, if known. */
+  span?: Span;
+}
+
+/** A reference to `formula.<name>` inside an expression. */
+export interface FormulaReference {
+  name: string;
+  span: Span;
+}
+
+/** How the formulas of a base depend on each other. */
+export interface FormulaGraph {
+  /** The formulas each formula references directly, in order of first use. */
+  dependencies: Record<string, string[]>;
+  /**
+   * The note properties each formula reads directly, or null for formulas which may read
+   * properties they don't name, such as through `file.hasTag()` or `file()`.
+   */
+  properties: Record<string, string[] | null>;
+  /**
+   * Formulas in evaluation order: every formula comes after the formulas it depends on.
+   * Formulas which are part of a cycle are left out.
+   */
+  order: string[];
+  /** Each cycle as the list of formulas along it, e.g. `["a", "b"]` for a → b → a. */
+  cycles: string[][];
+  diagnostics: FormulaDiagnostic[];
+}
+
+/**
+ * Find every `formula.<name>` and `formula["<name>"]` reference in an expression.
+ */
+export function findFormulaReferences(expression: Expression): FormulaReference[] {
+  const references: FormulaReference[] = [];
+
+  const visit = (node: Expression) => {
+    switch (node.type) {
+      case "member":
+        if (node.object.type === "identifier" && node.object.name === "formula") {
+          references.push({ name: node.property, span: node.span });
+          return;
+        }
+        visit(node.object);
+        return;
+      case "index":
+        if (
+          node.object.type === "identifier" &&
+          node.object.name === "formula" &&
+          node.index.type === "literal" &&
+          typeof node.index.value === "string"
+        ) {
+          references.push({ name: node.index.value, span: node.span });
+          return;
+        }
+        visit(node.object);
+        visit(node.index);
+        return;
+      case "list":
+        node.elements.forEach(visit);
+        return;
+      case "object":
+        node.entries.forEach((entry) => visit(entry.value));
+        return;
+      case "call":
+        node.args.forEach(visit);
+        return;
+      case "method":
+        visit(node.receiver);
+        node.args.forEach(visit);
+        return;
+      case "unary":
+        visit(node.argument);
+        return;
+      case "binary":
+      case "logical":
+        visit(node.left);
+        visit(node.right);
+        return;
+    }
+  };
+
+  visit(expression);
+  return references;
+}
+
+/**
+ * Functions which read the properties of the note or of other notes without naming them.
+ */
+const PROPERTY_READING_FUNCTIONS = new Set(["file", "taggedWith"]);
+
+/**
+ * Find the note properties an expression reads: bare identifiers, `note.<name>` and
+ * `note["<name>"]`. Returns null if the expression may also read properties it doesn't name,
+ * by using `note` or `file` as a whole, calling file methods or looking up other notes.
+ */
+export function findPropertyReferences(expression: Expression): string[] | null {
+  const properties = new Set<string>();
+  let unknown = false;
+
+  const visit = (node: Expression) => {
+    switch (node.type) {
+      case "identifier":
+        if (node.name === "file" || node.name === "note") unknown = true;
+        else if (node.name !== "formula") properties.add(node.name);
+        return;
+      case "member":
+        if (node.object.type === "identifier") {
+          switch (node.object.name) {
+            case "note":
+              properties.add(node.property);
+              return;
+            case "formula":
+              return;
+            case "file":
+              // `file.tags` falls back to the note's tags; `file.file` is the whole file
+              if (node.property === "tags") properties.add("tags");
+              if (node.property === "file") unknown = true;
+              return;
+          }
+        }
+        visit(node.object);
+        return;
+      case "index":
+        if (node.object.type === "identifier" && node.object.name === "note") {
+          if (node.index.type === "literal") {
+            properties.add(String(node.index.value));
+            return;
+          }
+        }
+        // `formula[...]` references a formula rather than a property
+        if (node.object.type !== "identifier" || node.object.name !== "formula") visit(node.object);
+        visit(node.index);
+        return;
+      case "list":
+        node.elements.forEach(visit);
+        return;
+      case "object":
+        node.entries.forEach((entry) => visit(entry.value));
+        return;
+      case "call":
+        if (PROPERTY_READING_FUNCTIONS.has(node.name)) unknown = true;
+        node.args.forEach(visit);
+        return;
+      case "method":
+        visit(node.receiver);
+        node.args.forEach(visit);
+        return;
+      case "unary":
+        visit(node.argument);
+        return;
+      case "binary":
+      case "logical":
+        visit(node.left);
+        visit(node.right);
+        return;
+    }
+  };
+
+  visit(expression);
+  return unknown ? null : [...properties];
+}
+
+/**
+ * Analyze the `formulas` section of a base: which formulas reference which, in what order they
+ * can be evaluated, and which references are circular or point to formulas that don't exist.
+ */
+export function analyzeFormulas(formulas: Record<string, string> = {}): FormulaGraph {
+  const names = Object.keys(formulas);
+  const dependencies: Record<string, string[]> = {};
+  const properties: Record<string, string[] | null> = {};
+  const diagnostics: FormulaDiagnostic[] = [];
+
+  for (const name of names) {
+    dependencies[name] = [];
+    properties[name] = [];
+
+    let references: FormulaReference[];
+    try {
+      const expression = parseExpression(String(formulas[name] ?? ""));
+      references = findFormulaReferences(expression);
+      properties[name] = findPropertyReferences(expression);
+    } catch (error) {
+      diagnostics.push({
+        formula: name,
+        code: "syntax",
+        message: (error as Error).message,
+        span: error instanceof ExpressionError ? error.span : undefined,
+      });
+      continue;
+    }
+
+    for (const reference of references) {
+      if (!Object.prototype.hasOwnProperty.call(formulas, reference.name)) {
+        diagnostics.push({
+          formula: name,
+          code: "undefined-formula",
+          message: `Formula '${reference.name}' is not defined`,
+          span: reference.span,
+        });
+      } else if (!dependencies[name].includes(reference.name)) {
+        dependencies[name].push(reference.name);
+      }
+    }
+  }
+
+  const { order, cycles } = sortFormulas(names, dependencies);
+  for (const cycle of cycles) {
+    const path = [...cycle, cycle[0]].map((name) => `formula.${name}`).join(" → ");
+    for (const name of cycle) {
+      diagnostics.push({
+        formula: name,
+        code: "circular-reference",
+        message: `Formula '${name}' is part of a circular reference: ${path}`,
+      });
+    }
+  }
+
+  return { dependencies, properties, order, cycles, diagnostics };
+}
+
+/**
+ * The formulas whose value may change when the note property `property` changes: those reading
+ * it, those which may read any property, and the formulas depending on either, in evaluation order.
+ */
+export function formulasReading(graph: FormulaGraph, property: string): string[] {
+  const affected = new Set(
+    Object.keys(graph.properties).filter((name) => {
+      const read = graph.properties[name];
+      return read === null || read.includes(property);
+    })
+  );
+
+  // Keep adding formulas that reference an affected formula until nothing changes
+  let added = true;
+  while (added) {
+    added = false;
+    for (const [name, dependencies] of Object.entries(graph.dependencies)) {
+      if (!affected.has(name) && dependencies.some((dependency) => affected.has(dependency))) {
+        affected.add(name);
+        added = true;
+      }
+    }
+  }
+  return graph.order.filter((name) => affected.has(name));
+}
+
+/**
+ * Every formula `name` depends on, directly or through other formulas, in evaluation order.
+ */
+export function formulaDependencies(graph: FormulaGraph, name: string): string[] {
+  const needed = new Set<string>();
+  const collect = (current: string) => {
+    for (const dependency of graph.dependencies[current] ?? []) {
+      if (needed.has(dependency)) continue;
+      needed.add(dependency);
+      collect(dependency);
+    }
+  };
+  collect(name);
+  needed.delete(name);
+  return graph.order.filter((formula) => needed.has(formula));
+}
+
+/** Whether a formula can never be evaluated because it refers back to itself. */
+export function isCircular(graph: FormulaGraph, name: string): boolean {
+  return graph.cycles.some((cycle) => cycle.includes(name));
+}
+
+/**
+ * Depth-first topological sort. A formula whose dependencies include a cycle is still
+ * ordered; only the formulas on the cycle itself are left out.
+ */
+function sortFormulas(
+  names: string[],
+  dependencies: Record<string, string[]>
+): { order: string[]; cycles: string[][] } {
+  const order: string[] = [];
+  const cycles: string[][] = [];
+  const state = new Map<string, "visiting" | "done">();
+  const stack: string[] = [];
+  const circular = new Set<string>();
+
+  const visit = (name: string) => {
+    state.set(name, "visiting");
+    stack.push(name);
+
+    for (const dependency of dependencies[name]) {
+      const dependencyState = state.get(dependency);
+      if (dependencyState === "visiting") {
+        const cycle = stack.slice(stack.indexOf(dependency));
+        cycles.push(cycle);
+        cycle.forEach((member) => circular.add(member));
+      } else if (dependencyState === undefined) {
+        visit(dependency);
+      }
+    }
+
+    stack.pop();
+    state.set(name, "done");
+    if (!circular.has(name)) order.push(name);
+  };
+
+  for (const name of names) {
+    if (!state.has(name)) visit(name);
+  }
+
+  return { order, cycles };
+}
@@ -0,0 +1,136 @@
+import { DateTime } from "luxon";
+import { applyDateArithmetic, isDate, parseDate, toDateTime } from "./dates";
+import { checkArity, ExpressionError } from "./errors";
+import type { EvaluationContext } from "./evaluate";
+import { BasesFile, resolveFile, toLink } from "./files";
+import { callMethod } from "./methods";
+import { displayString } from "./values";
+
+/** A global function; receives the already evaluated arguments. */
+export type GlobalFunction = (context: EvaluationContext, args: any[]) => any;
+
+/**
+ * Global functions callable without a receiver.
+ * `if()` is not listed here because it evaluates its branches lazily, see evaluate.ts.
+ */
+export const GLOBAL_FUNCTIONS: Record<string, GlobalFunction> = {
+  concat: (_context, args) => args.map(displayString).join(""),
+  list: (_context, args) => {
+    checkArity("list", args, 1);
+    const [element] = args;
+    if (Array.isArray(element)) return element;
+    return element === null || element === undefined ? [] : [element];
+  },
+
+  // Numbers
+  max: (_context, args) => {
+    checkArity("max", args, 1, Infinity);
+    return numericArguments("max", args).reduce((a, b) => Math.max(a, b));
+  },
+  min: (_context, args) => {
+    checkArity("min", args, 1, Infinity);
+    return numericArguments("min", args).reduce((a, b) => Math.min(a, b));
+  },
+  number: (_context, args) => {
+    checkArity("number", args, 1);
+    const [input] = args;
+    if (input === null || input === undefined) return null;
+    if (isDate(input)) return toDateTime(input).toMillis();
+    if (typeof input === "boolean") return input ? 1 : 0;
+    const result = typeof input === "string" && input.trim() === "" ? NaN : Number(input);
+    if (Number.isNaN(result)) {
+      throw new ExpressionError(
+        `number() could not convert '${displayString(input)}'`,
+        undefined,
+        "invalid-argument"
+      );
+    }
+    return result;
+  },
+
+  // Files and links
+  file: (context, args) => {
+    checkArity("file", args, 1);
+    const [path] = args;
+    if (path instanceof BasesFile) return path;
+    const link = toLink(path);
+    return link ? resolveFile(link, context) : null;
+  },
+  link: (_context, args) => {
+    checkArity("link", args, 1, 2);
+    const [path, display] = args;
+    const link = toLink(path);
+    if (!link || display === null || display === undefined) return link;
+    return link.withDisplay(displayString(display));
+  },
+
+  // Dates
+  date: (_context, args) => {
+    checkArity("date", args, 1);
+    const [input] = args;
+    if (isDate(input)) return toDateTime(input);
+    const parsed = parseDate(String(input ?? ""));
+    if (!parsed) {
+      throw new ExpressionError(
+        `date() could not parse '${displayString(input)}'`,
+        undefined,
+        "invalid-argument"
+      );
+    }
+    return parsed;
+  },
+  now: (_context, args) => {
+    checkArity("now", args, 0);
+    return DateTime.now();
+  },
+  today: (_context, args) => {
+    checkArity("today", args, 0);
+    return DateTime.now().startOf("day");
+  },
+  // Legacy date helper, rewritten by the updater to `date + "duration"`
+  dateModify: (_context, [date, duration]) =>
+    applyDateArithmetic("+", date, duration) ?? null,
+
+  // Legacy filter functions which take `file.file` as their first argument.
+  // They behave exactly like the file methods the updater rewrites them to.
+  taggedWith: (context, [fileObj, tag]) =>
+    callMethod(asFile(fileObj, context), "hasTag", [tag], context),
+  linksTo: (context, [fileObj, path]) =>
+    callMethod(asFile(fileObj, context), "hasLink", [path], context),
+  inFolder: (context, [fileObj, folder]) =>
+    callMethod(asFile(fileObj, context), "inFolder", [folder], context),
+  contains: (_context, [target, query]) => {
+    if (Array.isArray(target) || typeof target === "string") {
+      return target.includes(query);
+    }
+    return false;
+  },
+  empty: (_context, [target]) => {
+    if (Array.isArray(target) || typeof target === "string") {
+      return target.length === 0;
+    }
+    if (typeof target === "object" && target !== null) {
+      return Object.keys(target).length === 0;
+    }
+    return !target;
+  },
+};
+
+/** Check that every argument of max()/min() is a number, ignoring missing values. */
+function numericArguments(name: string, args: any[]): number[] {
+  const numbers = args.filter((arg) => arg !== null && arg !== undefined);
+  for (const value of numbers) {
+    if (typeof value !== "number") {
+      throw new ExpressionError(
+        `${name}() expects numbers but got '${displayString(value)}'`,
+        undefined,
+        "invalid-argument"
+      );
+    }
+  }
+  return numbers.length ? numbers : [NaN];
+}
+
+function asFile(value: any, context: EvaluationContext): BasesFile {
+  return value instanceof BasesFile ? value : new BasesFile(context.file, context.files);
+}
@@ -0,0 +1,38 @@
+/**
+ * Parser and evaluator for the Bases formula and filter expression language.
+ */
+export { parseExpression } from "./expression-parse";
+export { tokenize } from "./tokenizer";
+export { compile, evaluate, operandsOf, tryEvaluate } from "./evaluate";
+export { ExpressionError, checkArity, toEvaluationError } from "./errors";
+export { GLOBAL_FUNCTIONS } from "./functions";
+export { callMethod } from "./methods";
+export {
+  coerce,
+  compareForSort,
+  compareOrder,
+  compareValues,
+  displayString,
+  isTruthy,
+  kindOf,
+  valuesEqual,
+} from "./values";
+export { BasesFile, indexBacklinks } from "./files";
+export {
+  analyzeFormulas,
+  findFormulaReferences,
+  findPropertyReferences,
+  formulaDependencies,
+  formulasReading,
+  isCircular,
+} from "./formula-graph";
+export { formatMoment, parseDate, parseDuration, isDate, toDateTime } from "./dates";
+
+export type { CompiledExpression, EvaluationContext } from "./evaluate";
+export type { ErrorCode, EvaluationError, EvaluationResult } from "./errors";
+export type { GlobalFunction } from "./functions";
+export type { Method } from "./methods";
+export type { ValueKind } from "./values";
+export type { Token, TokenType } from "./tokenizer";
+export type { Expression, Span } from "./ast";
+export type { FormulaDiagnostic, FormulaGraph, FormulaReference } from "./formula-graph";
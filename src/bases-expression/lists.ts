@@ -0,0 +1,53 @@
+import { checkArity, expectInteger } from "./errors";
+import type { Method } from "./methods";
+import { compareForSort, displayString, valuesEqual } from "./values";
+
+/** Methods callable on a list. None of them modify the list they are called on. */
+export const LIST_METHODS: Record<string, Method> = {
+  contains: (receiver: any[], args) => {
+    checkArity("contains", args, 1);
+    return includesValue(receiver, args[0]);
+  },
+  containsAll: (receiver: any[], args) => {
+    checkArity("containsAll", args, 1, Infinity);
+    return args.every((value) => includesValue(receiver, value));
+  },
+  containsAny: (receiver: any[], args) => {
+    checkArity("containsAny", args, 1, Infinity);
+    return args.some((value) => includesValue(receiver, value));
+  },
+  join: (receiver: any[], args) => {
+    checkArity("join", args, 1);
+    return receiver.map(displayString).join(displayString(args[0]));
+  },
+  reverse: (receiver: any[], args) => {
+    checkArity("reverse", args, 0);
+    return [...receiver].reverse();
+  },
+  sort: (receiver: any[], args) => {
+    checkArity("sort", args, 0);
+    return [...receiver].sort(compareForSort);
+  },
+  flat: (receiver: any[], args) => {
+    checkArity("flat", args, 0);
+    return receiver.flat(Infinity);
+  },
+  unique: (receiver: any[], args) => {
+    checkArity("unique", args, 0);
+    return receiver.filter(
+      (item, i) => receiver.findIndex((other) => valuesEqual(item, other)) === i
+    );
+  },
+  slice: (receiver: any[], args) => {
+    checkArity("slice", args, 1, 2);
+    const [start, end] = args;
+    return receiver.slice(
+      expectInteger("slice", start),
+      end == null ? undefined : expectInteger("slice", end)
+    );
+  },
+};
+
+function includesValue(list: any[], value: any): boolean {
+  return list.some((item) => valuesEqual(item, value));
+}
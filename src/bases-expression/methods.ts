@@ -0,0 +1,127 @@
+import type { Link } from "../dataview-parser/normalize";
+import type { Span } from "./ast";
+import { DATE_METHODS, toDateTime } from "./dates";
+import { checkArity, ExpressionError } from "./errors";
+import { LIST_METHODS } from "./lists";
+import { NUMBER_METHODS } from "./numbers";
+import { REGEX_METHODS } from "./regexps";
+import { STRING_METHODS } from "./strings";
+import { displayString, kindOf, type ValueKind } from "./values";
+import type { EvaluationContext } from "./evaluate";
+import {
+  BasesFile,
+  normalizeFolder,
+  resolveFile,
+  sameTarget,
+  tagMatches,
+  toLink,
+} from "./files";
+
+/** A method implementation; receives the receiver and the already evaluated arguments. */
+export type Method = (receiver: any, args: any[], context: EvaluationContext) => any;
+
+/** Methods available on every value, including missing ones. */
+const ANY_METHODS: Record<string, Method> = {
+  toString: (receiver: any) => displayString(receiver),
+  isEmpty: (receiver) => {
+    if (kindOf(receiver) === "null") return true;
+    if (typeof receiver === "string" || Array.isArray(receiver)) {
+      return receiver.length === 0;
+    }
+    if (kindOf(receiver) === "object") return Object.keys(receiver).length === 0;
+    return false;
+  },
+};
+
+const FILE_METHODS: Record<string, Method> = {
+  asLink: (receiver: BasesFile, args) => {
+    checkArity("asLink", args, 0, 1);
+    const [display] = args;
+    return receiver.asLink(display == null ? undefined : displayString(display));
+  },
+  hasTag: (receiver: BasesFile, tags) => {
+    checkArity("hasTag", tags, 1, Infinity);
+    const fileTags = receiver.tags();
+    return tags.some((tag) => fileTags.some((fileTag) => tagMatches(fileTag, tag)));
+  },
+  inFolder: (receiver: BasesFile, args) => {
+    checkArity("inFolder", args, 1);
+    const target = normalizeFolder(args[0] ?? "");
+    const actual = normalizeFolder(receiver.get("folder") ?? "");
+    return target === "" || actual === target || actual.startsWith(`${target}/`);
+  },
+  hasLink: (receiver: BasesFile, args) => {
+    checkArity("hasLink", args, 1);
+    const target = toLink(args[0]);
+    return target !== null && receiver.links().some((link) => sameTarget(link, target));
+  },
+};
+
+const LINK_METHODS: Record<string, Method> = {
+  linksTo: (receiver: Link, args, context) => {
+    checkArity("linksTo", args, 1);
+    const source = resolveFile(receiver, context);
+    const target = toLink(args[0]);
+    return (
+      source !== null && target !== null && source.links().some((link) => sameTarget(link, target))
+    );
+  },
+};
+
+/** Method tables for each kind of receiver. */
+const METHODS: Record<ValueKind, Record<string, Method>> = {
+  null: {},
+  string: STRING_METHODS,
+  number: NUMBER_METHODS,
+  boolean: {},
+  date: DATE_METHODS,
+  duration: {},
+  list: LIST_METHODS,
+  link: LINK_METHODS,
+  file: FILE_METHODS,
+  regexp: REGEX_METHODS,
+  object: {},
+};
+
+/**
+ * Call `name` on `receiver`. Missing receivers propagate as null for methods that need a value.
+ */
+export function callMethod(
+  receiver: any,
+  name: string,
+  args: any[],
+  context: EvaluationContext,
+  span?: Span
+): any {
+  const kind = kindOf(receiver);
+  const method = ownEntry(METHODS[kind], name) ?? ownEntry(ANY_METHODS, name);
+
+  if (!method) {
+    if (kind === "null") return null;
+    const known = Object.values(METHODS).some((table) => ownEntry(table, name));
+    throw new ExpressionError(
+      describeMissingMethod(name, kind),
+      span,
+      known ? "type-mismatch" : "unknown-function"
+    );
+  }
+
+  return method(kind === "date" ? toDateTime(receiver) : receiver, args, context);
+}
+
+/** Explain why `name` cannot be called on a value of `kind`, naming the types that do support it. */
+function describeMissingMethod(name: string, kind: ValueKind): string {
+  const supported = (Object.keys(METHODS) as ValueKind[]).filter((other) =>
+    ownEntry(METHODS[other], name)
+  );
+  if (supported.length === 0) {
+    return `Unknown function ${name}()`;
+  }
+  const article = kind === "object" ? "an" : "a";
+  return `${name}() cannot be called on ${article} ${kind}; it is a ${supported.join(" or ")} function`;
+}
+
+/** Look up a table entry without falling through to Object.prototype (e.g. `toString`). */
+export function ownEntry<T>(table: Record<string, T>, name: string): T | undefined {
+  return Object.prototype.hasOwnProperty.call(table, name) ? table[name] : undefined;
+}
@@ -0,0 +1,46 @@
+import { checkArity, expectInteger } from "./errors";
+import type { Method } from "./methods";
+
+/** Methods callable on a number. */
+export const NUMBER_METHODS: Record<string, Method> = {
+  abs: (receiver: number, args) => {
+    checkArity("abs", args, 0);
+    return Math.abs(receiver);
+  },
+  ceil: (receiver: number, args) => {
+    checkArity("ceil", args, 0);
+    return Math.ceil(receiver);
+  },
+  floor: (receiver: number, args) => {
+    checkArity("floor", args, 0);
+    return Math.floor(receiver);
+  },
+  round: (receiver: number, args) => {
+    checkArity("round", args, 0, 1);
+    const digits = args.length ? expectInteger("round", args[0]) : 0;
+    return roundTo(receiver, digits);
+  },
+  toFixed: (receiver: number, args) => {
+    checkArity("toFixed", args, 1);
+    const precision = expectInteger("toFixed", args[0]);
+    return receiver.toFixed(Math.min(Math.max(precision, 0), 100));
+  },
+};
+
+/**
+ * Round to a number of decimal digits. Shifting through the decimal exponent rather than
+ * multiplying avoids binary rounding surprises such as `1.005` rounding down. Values which
+ * can't be shifted that far are already whole at that precision and are returned as they are.
+ */
+export function roundTo(value: number, digits: number): number {
+  if (!Number.isFinite(value) || digits === 0) return Math.round(value);
+  const shifted = shiftDecimal(value, digits);
+  if (!Number.isFinite(shifted)) return value;
+  return shiftDecimal(Math.round(shifted), -digits);
+}
+
+/** Multiply by a power of ten exactly, by moving the exponent of the number's shortest form. */
+function shiftDecimal(value: number, digits: number): number {
+  const [mantissa, exponent] = value.toExponential().split("e");
+  return Number(`${mantissa}e${Number(exponent) + digits}`);
+}
@@ -0,0 +1,15 @@
+import { checkArity } from "./errors";
+import type { Method } from "./methods";
+import { displayString } from "./values";
+
+/** Methods callable on a regular expression. */
+export const REGEX_METHODS: Record<string, Method> = {
+  matches: (receiver: RegExp, args) => {
+    checkArity("matches", args, 1);
+    const [value] = args;
+    if (value === null || value === undefined) return false;
+    // A copy without the `g`/`y` flags, so repeated tests don't depend on lastIndex
+    const pattern = new RegExp(receiver.source, receiver.flags.replace(/[gy]/g, ""));
+    return pattern.test(displayString(value));
+  },
+};
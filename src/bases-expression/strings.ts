@@ -0,0 +1,71 @@
+import { checkArity, expectInteger } from "./errors";
+import type { Method } from "./methods";
+
+/** Methods callable on a string. */
+export const STRING_METHODS: Record<string, Method> = {
+  contains: (receiver: string, args) => {
+    checkArity("contains", args, 1);
+    return receiver.includes(asString(args[0]));
+  },
+  containsAll: (receiver: string, args) => {
+    checkArity("containsAll", args, 1, Infinity);
+    return args.every((value) => receiver.includes(asString(value)));
+  },
+  containsAny: (receiver: string, args) => {
+    checkArity("containsAny", args, 1, Infinity);
+    return args.some((value) => receiver.includes(asString(value)));
+  },
+  startsWith: (receiver: string, args) => {
+    checkArity("startsWith", args, 1);
+    return receiver.startsWith(asString(args[0]));
+  },
+  endsWith: (receiver: string, args) => {
+    checkArity("endsWith", args, 1);
+    return receiver.endsWith(asString(args[0]));
+  },
+  icon: (receiver: string, args) => {
+    checkArity("icon", args, 0);
+    return receiver;
+  },
+  lower: (receiver: string, args) => {
+    checkArity("lower", args, 0);
+    return receiver.toLowerCase();
+  },
+  title: (receiver: string, args) => {
+    checkArity("title", args, 0);
+    return receiver.replace(/(^|\s)(\S)/gu, (_match, space, letter) => space + letter.toUpperCase());
+  },
+  trim: (receiver: string, args) => {
+    checkArity("trim", args, 0);
+    return receiver.trim();
+  },
+  reverse: (receiver: string, args) => {
+    checkArity("reverse", args, 0);
+    return Array.from(receiver).reverse().join("");
+  },
+  slice: (receiver: string, args) => {
+    checkArity("slice", args, 1, 2);
+    const [start, end] = args;
+    return receiver.slice(expectInteger("slice", start), end == null ? undefined : expectInteger("slice", end));
+  },
+  replace: (receiver: string, args) => {
+    checkArity("replace", args, 2);
+    const [pattern, replacement] = args;
+    // A string pattern replaces every occurrence; a RegExp only does so with the `g` flag
+    if (pattern instanceof RegExp) {
+      return receiver.replace(pattern, asString(replacement));
+    }
+    return receiver.split(asString(pattern)).join(asString(replacement));
+  },
+  split: (receiver: string, args) => {
+    checkArity("split", args, 1, 2);
+    const [separator, limit] = args;
+    const parts = receiver.split(separator instanceof RegExp ? separator : asString(separator));
+    return limit == null ? parts : parts.slice(0, expectInteger("split", limit));
+  },
+};
+
+function asString(value: any): string {
+  if (value === null || value === undefined) return "";
+  return String(value);
+}
@@ -0,0 +1,168 @@
+import { ExpressionError } from "./errors";
+import type { Span } from "./ast";
+
+/** The kinds of tokens produced by the tokenizer. */
+export type TokenType = "number" | "string" | "regex" | "identifier" | "punctuation" | "eof";
+
+/** A single lexical token of a Bases expression. */
+export interface Token {
+  type: TokenType;
+  /** The token text; for strings this is the unescaped contents, for regexes the pattern. */
+  value: string;
+  /** Flags following a regex literal, e.g. `gi`. */
+  flags?: string;
+  /** Position of the token in the source expression. */
+  span: Span;
+}
+
+/** Punctuation made of two characters; checked before single characters. */
+const TWO_CHAR_PUNCTUATION = ["==", "!=", ">=", "<=", "&&", "||"];
+/** Single character punctuation. */
+const ONE_CHAR_PUNCTUATION = "+-*/%<>!(),.[]{}:";
+
+const IDENTIFIER_START = /[\p{L}_$]/u;
+const IDENTIFIER_PART = /[\p{L}\p{N}_$]/u;
+const DIGIT = /[0-9]/;
+const REGEX_FLAG = /[a-z]/;
+
+const STRING_ESCAPES: Record<string, string> = {
+  n: "\n",
+  t: "\t",
+  r: "\r",
+};
+
+/**
+ * Split a Bases expression into tokens. The returned list always ends with an `eof` token.
+ */
+export function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let pos = 0;
+
+  while (pos < source.length) {
+    const char = source[pos];
+
+    if (/\s/.test(char)) {
+      pos++;
+      continue;
+    }
+
+    const start = pos;
+
+    // Numbers; a trailing "." is only consumed when followed by a digit so that `5.isEmpty()` works
+    if (DIGIT.test(char)) {
+      while (pos < source.length && DIGIT.test(source[pos])) pos++;
+      if (source[pos] === "." && DIGIT.test(source[pos + 1] ?? "")) {
+        pos++;
+        while (pos < source.length && DIGIT.test(source[pos])) pos++;
+      }
+      tokens.push({
+        type: "number",
+        value: source.substring(start, pos),
+        span: { start, end: pos },
+      });
+      continue;
+    }
+
+    // String literals with either quote style
+    if (char === '"' || char === "'") {
+      let value = "";
+      pos++;
+      while (pos < source.length && source[pos] !== char) {
+        if (source[pos] === "\\" && pos + 1 < source.length) {
+          const escaped = source[pos + 1];
+          value += STRING_ESCAPES[escaped] ?? escaped;
+          pos += 2;
+        } else {
+          value += source[pos++];
+        }
+      }
+      if (pos >= source.length) {
+        throw new ExpressionError("Unterminated string literal", { start, end: pos }, "syntax");
+      }
+      pos++;
+      tokens.push({ type: "string", value, span: { start, end: pos } });
+      continue;
+    }
+
+    if (IDENTIFIER_START.test(char)) {
+      while (pos < source.length && IDENTIFIER_PART.test(source[pos])) pos++;
+      tokens.push({
+        type: "identifier",
+        value: source.substring(start, pos),
+        span: { start, end: pos },
+      });
+      continue;
+    }
+
+    // Regex literals; a "/" only starts one where an operand is expected, otherwise it divides
+    if (char === "/" && expectsOperand(tokens[tokens.length - 1])) {
+      pos = readRegex(source, pos, tokens);
+      continue;
+    }
+
+    const pair = source.substring(pos, pos + 2);
+    if (TWO_CHAR_PUNCTUATION.includes(pair)) {
+      pos += 2;
+      tokens.push({ type: "punctuation", value: pair, span: { start, end: pos } });
+      continue;
+    }
+
+    if (ONE_CHAR_PUNCTUATION.includes(char)) {
+      pos++;
+      tokens.push({ type: "punctuation", value: char, span: { start, end: pos } });
+      continue;
+    }
+
+    throw new ExpressionError(
+      `Unexpected character '${char}'`,
+      { start, end: start + 1 },
+      "syntax"
+    );
+  }
+
+  tokens.push({ type: "eof", value: "", span: { start: pos, end: pos } });
+  return tokens;
+}
+
+/** Whether the next token starts an operand, i.e. the previous token cannot end one. */
+function expectsOperand(previous: Token | undefined): boolean {
+  if (!previous) return true;
+  if (previous.type !== "punctuation") return false;
+  return ![")", "]", "}"].includes(previous.value);
+}
+
+/** Read a `/pattern/flags` literal starting at `start`, returning the position after it. */
+function readRegex(source: string, start: number, tokens: Token[]): number {
+  let pos = start + 1;
+  let inClass = false;
+
+  while (pos < source.length && (source[pos] !== "/" || inClass)) {
+    if (source[pos] === "\\") {
+      pos += 2;
+      continue;
+    }
+    if (source[pos] === "[") inClass = true;
+    else if (source[pos] === "]") inClass = false;
+    pos++;
+  }
+  if (pos >= source.length) {
+    throw new ExpressionError(
+      "Unterminated regular expression",
+      { start, end: source.length },
+      "syntax"
+    );
+  }
+
+  const pattern = source.substring(start + 1, pos);
+  pos++;
+  const flagsStart = pos;
+  while (pos < source.length && REGEX_FLAG.test(source[pos])) pos++;
+
+  tokens.push({
+    type: "regex",
+    value: pattern,
+    flags: source.substring(flagsStart, pos),
+    span: { start, end: pos },
+  });
+  return pos;
+}
@@ -0,0 +1,146 @@
+import { DateTime, Duration } from "luxon";
+import { describe, expect, it } from "vitest";
+import { Link } from "../dataview-parser/normalize";
+import type { CompareOp } from "./ast";
+import { BasesFile } from "./files";
+import { coerce, compareValues, displayString, isTruthy, valuesEqual, type ValueKind } from "./values";
+
+const note = { file: { name: "Note.md", path: "Folder/Note.md" } };
+const file = new BasesFile(note);
+
+describe("isTruthy", () => {
+  it.each<[string, any, boolean]>([
+    ["null", null, false],
+    ["undefined", undefined, false],
+    ["NaN", NaN, false],
+    ["true", true, true],
+    ["false", false, false],
+    ["zero", 0, false],
+    ["a number", -2.5, true],
+    ["the empty string", "", false],
+    ["a string", "no", true],
+    ["the empty list", [], false],
+    ["a list", [null], true],
+    ["the empty object", {}, false],
+    ["an object", { a: 1 }, true],
+    ["a date", DateTime.fromISO("2025-01-01"), true],
+    ["a zero duration", Duration.fromMillis(0), true],
+    ["a link", Link.file("Note"), true],
+    ["a file", file, true],
+    ["a regexp", /x/, true],
+  ])("%s", (_, value, expected) => {
+    expect(isTruthy(value)).toBe(expected);
+  });
+});
+
+describe("coerce", () => {
+  it.each<[string, any, ValueKind, any]>([
+    ["a number string to number", "10", "number", 10],
+    ["a decimal string to number", " 2.5 ", "number", 2.5],
+    ["a blank string to number", "  ", "number", undefined],
+    ["a word to number", "ten", "number", undefined],
+    ["a boolean to number", true, "number", undefined],
+    ["a string to string", "same", "string", "same"],
+    ["a number to string", 10, "string", undefined],
+    ["a string to boolean", "true", "boolean", undefined],
+    ["a number to list", 1, "list", undefined],
+    ["a bad date string to date", "someday", "date", undefined],
+    ["a bad duration string to duration", "a while", "duration", undefined],
+    ["a number to link", 1, "link", undefined],
+  ])("%s", (_, value, to, expected) => {
+    expect(coerce(value, to)).toEqual(expected);
+  });
+
+  it("reads date strings and epoch milliseconds as dates", () => {
+    expect(coerce("2025-05-27", "date").toISODate()).toBe("2025-05-27");
+    expect(coerce(0, "date").toMillis()).toBe(0);
+  });
+
+  it("reads duration strings and milliseconds as durations", () => {
+    expect(coerce("1 day", "duration").as("hours")).toBe(24);
+    expect(coerce(1000, "duration").as("seconds")).toBe(1);
+  });
+
+  it("turns paths, wikilinks and files into links", () => {
+    expect(coerce("Folder/Note.md", "link").path).toBe("Folder/Note.md");
+    expect(coerce("[[Note]]", "link").path).toBe("Note");
+    expect(coerce(file, "link").path).toBe("Folder/Note.md");
+  });
+});
+
+describe("valuesEqual", () => {
+  it.each<[string, any, any, boolean]>([
+    ["null and undefined", null, undefined, true],
+    ["null and a value", null, 0, false],
+    ["equal strings", "a", "a", true],
+    ["strings differing in case", "a", "A", false],
+    ["a number and its string", 10, "10", true],
+    ["a string and its number", "10", 10, true],
+    ["different numbers", 1, 2, false],
+    ["booleans", true, true, true],
+    ["a boolean and a string", true, "true", false],
+    ["a date and its string", DateTime.fromISO("2025-05-27"), "2025-05-27", true],
+    ["a Date and a DateTime", new Date(2025, 4, 27), DateTime.local(2025, 5, 27), true],
+    ["a duration and its string", Duration.fromObject({ days: 1 }), "1 day", true],
+    ["equal lists", [1, "2"], [1, 2], true],
+    ["lists of different length", [1], [1, 1], false],
+    ["equal objects", { a: [1] }, { a: [1] }, true],
+    ["objects with different keys", { a: 1 }, { b: 1 }, false],
+    ["links to the same note", Link.file("Folder/Note.md"), Link.file("Folder/Note"), true],
+    ["a link and a path", Link.file("Folder/Note.md"), "Folder/Note.md", true],
+    ["links to different notes", Link.file("A"), Link.file("B"), false],
+    ["files of the same note", file, new BasesFile(note), true],
+    ["a file and a path", file, "Folder/Note.md", false],
+    ["equal regexps", /a/i, /a/i, true],
+    ["regexps with different flags", /a/i, /a/g, false],
+    ["a list and a string", ["a"], "a", false],
+  ])("%s", (_, left, right, expected) => {
+    expect(valuesEqual(left, right)).toBe(expected);
+  });
+});
+
+describe("compareValues", () => {
+  it.each<[CompareOp, any, any, boolean]>([
+    ["==", 1, "1", true],
+    ["!=", 1, "1", false],
+    ["!=", null, 0, true],
+    [">", 10, 9, true],
+    [">", "10", 9, true],
+    [">=", 2, 2, true],
+    ["<", 1, 2, true],
+    ["<=", 3, 2, false],
+    ["<", "item 9", "item 10", true],
+    [">", DateTime.fromISO("2025-06-01"), "2025-05-27", true],
+    ["<", Duration.fromObject({ hours: 1 }), "1 day", true],
+    [">", true, false, true],
+    [">=", null, 0, false],
+    ["<", "abc", 5, false],
+    ["<", [1], [2], false],
+    [">", { a: 1 }, { a: 0 }, false],
+  ])("%s %o %o", (op, left, right, expected) => {
+    expect(compareValues(op, left, right)).toBe(expected);
+  });
+});
+
+describe("displayString", () => {
+  it.each<[string, any, string]>([
+    ["null", null, ""],
+    ["undefined", undefined, ""],
+    ["NaN", NaN, ""],
+    ["Infinity", Infinity, "Infinity"],
+    ["a number", 42, "42"],
+    ["floating point noise", 0.1 + 0.2, "0.3"],
+    ["a string", "text", "text"],
+    ["a boolean", false, "false"],
+    ["a list", [1, "a", [2, 3]], "1, a, 2, 3"],
+    ["a link", Link.file("Folder/Note.md"), "Note"],
+    ["a link with display text", Link.file("Folder/Note.md", false, "Shown"), "Shown"],
+    ["a file", file, "Folder/Note.md"],
+    ["a date", DateTime.local(2025, 5, 27), "2025-05-27"],
+    ["a date and time", DateTime.local(2025, 5, 27, 14, 30), "2025-05-27 14:30"],
+    ["a Date", new Date(2025, 4, 27), "2025-05-27"],
+    ["a duration", Duration.fromObject({ hours: 1, minutes: 30 }), "1 hour, 30 minutes"],
+  ])("%s", (_, value, expected) => {
+    expect(displayString(value)).toBe(expected);
+  });
+});
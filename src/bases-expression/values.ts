@@ -0,0 +1,277 @@
+import { DateTime, Duration } from "luxon";
+import { Link } from "../dataview-parser/normalize";
+import type { CompareOp } from "./ast";
+import { formatMoment, isDate, parseDate, parseDuration, toDateTime } from "./dates";
+import { BasesFile, sameTarget, toLink } from "./files";
+
+/**
+ * The types of values expressions work with. JS `Date`s count as dates, and `NaN` (what
+ * arithmetic on missing values used to produce) counts as missing.
+ */
+export type ValueKind =
+  | "null"
+  | "string"
+  | "number"
+  | "boolean"
+  | "date"
+  | "duration"
+  | "list"
+  | "link"
+  | "file"
+  | "regexp"
+  | "object";
+
+/** Determine the type of a value. */
+export function kindOf(value: any): ValueKind {
+  if (value === null || value === undefined || Number.isNaN(value)) return "null";
+  if (typeof value === "string") return "string";
+  if (typeof value === "number") return "number";
+  if (typeof value === "boolean") return "boolean";
+  if (Array.isArray(value)) return "list";
+  if (value instanceof Date || value instanceof DateTime) return "date";
+  if (Duration.isDuration(value)) return "duration";
+  if (value instanceof Link) return "link";
+  if (value instanceof BasesFile) return "file";
+  if (value instanceof RegExp) return "regexp";
+  return "object";
+}
+
+/**
+ * Whether a value counts as true in `if()`, `&&`, `||`, `!` and filters:
+ *
+ * | type                                    | truthy when            |
+ * | --------------------------------------- | ---------------------- |
+ * | null                                    | never                  |
+ * | boolean                                 | it is `true`           |
+ * | number                                  | it is not 0            |
+ * | string                                  | it is not `""`         |
+ * | list                                    | it has elements        |
+ * | object                                  | it has own properties  |
+ * | date, duration, link, file, regexp      | always                 |
+ *
+ * Apart from `false` and `0` this is the opposite of `isEmpty()`.
+ */
+export function isTruthy(value: any): boolean {
+  switch (kindOf(value)) {
+    case "null":
+      return false;
+    case "boolean":
+      return value;
+    case "number":
+      return value !== 0;
+    case "string":
+    case "list":
+      return value.length > 0;
+    case "object":
+      return Object.keys(value).length > 0;
+    default:
+      return true;
+  }
+}
+
+/**
+ * Convert a value to another type where the conversion is implicit, or return undefined:
+ *
+ * | to       | from                                              |
+ * | -------- | ------------------------------------------------- |
+ * | number   | a string holding a number, e.g. `"10"`            |
+ * | date     | a date string, a number of epoch milliseconds     |
+ * | duration | a duration string such as `"1 day"`, milliseconds |
+ * | link     | a path or wikilink string, a file                 |
+ *
+ * Nothing converts to string, boolean, list or object implicitly; use `toString()`,
+ * `number()`, `list()` and friends instead.
+ */
+export function coerce(value: any, to: ValueKind): any {
+  const from = kindOf(value);
+  if (from === to) return value;
+
+  switch (to) {
+    case "number":
+      if (from === "string" && value.trim() !== "") {
+        const number = Number(value);
+        return Number.isNaN(number) ? undefined : number;
+      }
+      return undefined;
+    case "date":
+      if (from === "string") return parseDate(value) ?? undefined;
+      if (from === "number") return DateTime.fromMillis(value);
+      return undefined;
+    case "duration":
+      if (from === "string") return parseDuration(value) ?? undefined;
+      if (from === "number") return Duration.fromMillis(value);
+      return undefined;
+    case "link":
+      return from === "string" || from === "file" ? (toLink(value) ?? undefined) : undefined;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Bring two values to a common type: values of the same type are left alone, otherwise the
+ * right value is converted to the type of the left one or, failing that, the other way round.
+ * Returns undefined if either value is missing or the types have nothing in common.
+ */
+function coercePair(left: any, right: any): [any, any, ValueKind] | undefined {
+  const leftKind = kindOf(left);
+  const rightKind = kindOf(right);
+  if (leftKind === "null" || rightKind === "null") return undefined;
+  if (leftKind === rightKind) return [left, right, leftKind];
+
+  const convertedRight = coerce(right, leftKind);
+  if (convertedRight !== undefined) return [left, convertedRight, leftKind];
+  const convertedLeft = coerce(left, rightKind);
+  if (convertedLeft !== undefined) return [convertedLeft, right, rightKind];
+  return undefined;
+}
+
+/**
+ * Equality used by `==`, `!=`, `list.contains()` and `list.unique()`. Both values are first
+ * brought to a common type (see `coerce`), then:
+ *
+ * | type               | equal when                                 |
+ * | ------------------ | ------------------------------------------ |
+ * | null               | the other value is null too                |
+ * | string             | same characters, case-sensitive            |
+ * | number, boolean    | same value                                 |
+ * | date, duration     | same instant / length                      |
+ * | list               | same length and equal elements in order    |
+ * | object             | same keys with equal values                |
+ * | link, file         | they point to the same note                |
+ * | regexp             | same pattern and flags                     |
+ *
+ * Values which cannot be brought to a common type are never equal.
+ */
+export function valuesEqual(left: any, right: any): boolean {
+  if (kindOf(left) === "null" || kindOf(right) === "null") {
+    return kindOf(left) === kindOf(right);
+  }
+
+  const pair = coercePair(left, right);
+  if (!pair) return false;
+  const [a, b, kind] = pair;
+
+  switch (kind) {
+    case "date":
+      return +toDateTime(a) === +toDateTime(b);
+    case "duration":
+      return a.toMillis() === b.toMillis();
+    case "list":
+      return a.length === b.length && a.every((item: any, i: number) => valuesEqual(item, b[i]));
+    case "object": {
+      const keys = Object.keys(a);
+      return (
+        keys.length === Object.keys(b).length &&
+        keys.every(
+          (key) => Object.prototype.hasOwnProperty.call(b, key) && valuesEqual(a[key], b[key])
+        )
+      );
+    }
+    case "link":
+      return sameTarget(a, b);
+    case "file":
+      return a.path() === b.path();
+    case "regexp":
+      return a.source === b.source && a.flags === b.flags;
+    default:
+      return a === b;
+  }
+}
+
+/** Compares strings the way people read them, so "9" < "10" and "item 9" < "item 10". */
+const NATURAL_ORDER = new Intl.Collator(undefined, { numeric: true });
+
+/**
+ * Order two values after bringing them to a common type (see `coerce`): numbers numerically,
+ * strings in natural order, dates chronologically, durations by length and `false` before `true`.
+ * Returns undefined when the values cannot be ordered, i.e. when either is missing, the types have
+ * nothing in common, or they are lists, objects, links, files or regexps.
+ */
+export function compareOrder(left: any, right: any): number | undefined {
+  const pair = coercePair(left, right);
+  if (!pair) return undefined;
+  const [a, b, kind] = pair;
+
+  switch (kind) {
+    case "number":
+      return a - b;
+    case "string":
+      return NATURAL_ORDER.compare(a, b);
+    case "date":
+      return +toDateTime(a) - +toDateTime(b);
+    case "duration":
+      return a.toMillis() - b.toMillis();
+    case "boolean":
+      return Number(a) - Number(b);
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Apply a comparison operator. Ordering operators are false whenever the values cannot be
+ * ordered, so `null >= 0` and `"abc" < 5` are both false.
+ */
+export function compareValues(op: CompareOp, left: any, right: any): boolean {
+  if (op === "==") return valuesEqual(left, right);
+  if (op === "!=") return !valuesEqual(left, right);
+
+  const order = compareOrder(left, right);
+  if (order === undefined) return false;
+  switch (op) {
+    case ">":
+      return order > 0;
+    case ">=":
+      return order >= 0;
+    case "<":
+      return order < 0;
+    case "<=":
+      return order <= 0;
+  }
+}
+
+/** Order in which values of different types sort relative to each other. */
+const SORT_TYPE_ORDER: ValueKind[] = ["number", "date", "duration", "string", "boolean"];
+
+/**
+ * Compare two values for sorting from smallest to largest: numbers numerically, dates chronologically,
+ * strings in natural order. Values of different types are grouped by type, with missing values last.
+ */
+export function compareForSort(left: any, right: any): number {
+  const leftRank = sortRank(left);
+  const rightRank = sortRank(right);
+  if (leftRank !== rightRank) return leftRank - rightRank;
+  return compareOrder(left, right) ?? 0;
+}
+
+/** Position of a value's type in the sort order; other types come next, missing values last. */
+function sortRank(value: any): number {
+  const kind = kindOf(value);
+  if (kind === "null") return SORT_TYPE_ORDER.length + 1;
+  const rank = SORT_TYPE_ORDER.indexOf(kind);
+  return rank === -1 ? SORT_TYPE_ORDER.length : rank;
+}
+
+/** The string representation used by `toString()` and string concatenation. */
+export function displayString(value: any): string {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "number") {
+    if (!Number.isFinite(value)) return Number.isNaN(value) ? "" : String(value);
+    // Hide binary floating point noise such as 0.1 + 0.2 = 0.30000000000000004
+    return String(Number(value.toPrecision(15)));
+  }
+  if (Array.isArray(value)) return value.map(displayString).join(", ");
+  // Links show their display text, or the note name without folder and extension
+  if (value instanceof Link) {
+    return value.display ?? value.path.replace(/^.*\//, "").replace(/\.md$/, "");
+  }
+  if (value instanceof BasesFile) return value.path();
+  if (Duration.isDuration(value)) return value.rescale().toHuman();
+  if (isDate(value)) {
+    const date = toDateTime(value);
+    // Dates without a time of day display as plain dates
+    return formatMoment(date, +date === +date.startOf("day") ? "YYYY-MM-DD" : "YYYY-MM-DD HH:mm");
+  }
+  return String(value);
+}
@@ -765,6 +765,9 @@ export class DataviewToBasesTransformer {
 
       // RegExp functions
       matches: "matches",
+      regextest: "matches",
+      regexmatch: "regexmatch",
+      regexreplace: "regexreplace",
 
       // Legacy mappings for backward compatibility
       sum: "sum",
@@ -930,14 +933,30 @@ export class DataviewToBasesTransformer {
         break;
 
       case "matches":
-        // Handle RegExp matches() method
+        // Handle RegExp matches() method; Dataview's regextest() passes the pattern as a string
         if (args.length === 2) {
-          const regexp = args[0];
+          const regexp = this.regexLiteral(field.arguments[0]) ?? args[0];
           const testString = args[1];
           return `${regexp}.matches(${testString})`;
         }
         break;
 
+      case "regexmatch":
+        // regexmatch() must match the whole string
+        if (args.length === 2) {
+          const regexp = this.regexLiteral(field.arguments[0], "", true) ?? args[0];
+          return `${regexp}.matches(${args[1]})`;
+        }
+        break;
+
+      case "regexreplace":
+        // regexreplace(string, pattern, replacement) replaces every match
+        if (args.length === 3) {
+          const regexp = this.regexLiteral(field.arguments[1], "g") ?? args[1];
+          return `${args[0]}.replace(${regexp}, ${args[2]})`;
+        }
+        break;
+
       case "asLink":
         // Handle file.asLink() method
         if (args.length >= 1) {
@@ -964,7 +983,7 @@ export class DataviewToBasesTransformer {
     // Check if this should be a method call (but not if it has special handling)
     const hasSpecialHandling = [
       "if", "choice", "contains", "date", "today", "now", "number", "list", "file", "duration",
-      "!isEmpty", "icon", "matches", "asLink", "linksTo"
+      "!isEmpty", "icon", "matches", "regexmatch", "regexreplace", "asLink", "linksTo"
     ].includes(basesFunc);
 
     if (this.isMethodCall(basesFunc) && args.length > 0 && !hasSpecialHandling) {
@@ -982,6 +1001,24 @@ export class DataviewToBasesTransformer {
     return `${basesFunc}(${args.join(", ")})`;
   }
 
+  /**
+   * Turn a string literal pattern into a `/pattern/flags` literal, or return undefined
+   * if the pattern is not a literal
+   */
+  private regexLiteral(
+    field: Field,
+    flags = "",
+    anchored = false
+  ): string | undefined {
+    if (field.type !== "literal" || typeof field.value !== "string") {
+      return undefined;
+    }
+    const source = anchored ? `^(?:${field.value})$` : field.value;
+    // An unescaped "/" would end the literal early
+    const escaped = source.replace(/(\\.)|\//g, (_match, pair) => pair ?? "\\/");
+    return `/${escaped}/${flags}`;
+  }
+
   /**
    * Map Dataview property names to Bases property names
    */
@@ -0,0 +1,165 @@
+import {
+  coerce,
+  compareOrder,
+  displayString,
+  isTruthy,
+  kindOf,
+  type EvaluationResult,
+} from "../bases-expression";
+import { getColumnValue, normalizeColumn, type BaseView } from "./basesParser";
+
+/**
+ * A summary of the values of a column
+ */
+type Aggregation = (values: any[]) => any;
+
+/**
+ * The aggregations a view's `agg` can name. Empty values are null, empty strings and empty lists
+ */
+export const AGGREGATIONS: Record<string, Aggregation> = {
+  // Number of rows
+  count: (values) => values.length,
+  // Number of rows without a value
+  "count-empty": (values) => values.filter(isEmptyValue).length,
+  // Number of different values; the elements of list values count separately
+  unique: (values) =>
+    new Set(values.flat().filter((value) => !isEmptyValue(value)).map(displayString)).size,
+  sum: (values) => {
+    const numbers = numericValues(values);
+    return numbers.length ? numbers.reduce((total, value) => total + value, 0) : null;
+  },
+  average: (values) => {
+    const numbers = numericValues(values);
+    if (numbers.length === 0) return null;
+    return numbers.reduce((total, value) => total + value, 0) / numbers.length;
+  },
+  min: (values) => extreme(numericValues(values), -1),
+  max: (values) => extreme(numericValues(values), 1),
+  median: (values) => {
+    const numbers = numericValues(values).sort((a, b) => a - b);
+    if (numbers.length === 0) return null;
+    const middle = Math.floor(numbers.length / 2);
+    return numbers.length % 2 ? numbers[middle] : (numbers[middle - 1] + numbers[middle]) / 2;
+  },
+  earliest: (values) => extreme(dateValues(values), -1),
+  latest: (values) => extreme(dateValues(values), 1),
+  // Share of rows whose value is checked, i.e. true, in percent
+  "percent-checked": (values) =>
+    values.length ? (values.filter((value) => value === true).length / values.length) * 100 : null,
+};
+
+/**
+ * Other names accepted for aggregations
+ */
+const AGGREGATION_ALIASES: Record<string, string> = {
+  avg: "average",
+  mean: "average",
+  empty: "count-empty",
+  distinct: "unique",
+  checked: "percent-checked",
+};
+
+/**
+ * Read the aggregations of a view for the given columns. `agg` is either the name of one
+ * aggregation used for every column or a map from column to aggregation name, in which note
+ * properties may be written with or without their `note.`/`property.` prefix
+ */
+export function getAggregations(
+  agg: BaseView["agg"],
+  columns: string[]
+): Record<string, string> {
+  if (typeof agg === "string" && agg.trim()) {
+    return Object.fromEntries(columns.map((column) => [column, agg]));
+  }
+  if (!agg || typeof agg !== "object" || Array.isArray(agg)) return {};
+
+  const configured: Record<string, string> = {};
+  for (const [column, name] of Object.entries(agg)) {
+    if (typeof name === "string" && name.trim()) configured[normalizeColumn(column)] = name;
+  }
+
+  const aggregations: Record<string, string> = {};
+  for (const column of columns) {
+    const name = configured[normalizeColumn(column)];
+    if (name) aggregations[column] = name;
+  }
+  return aggregations;
+}
+
+/**
+ * Aggregate the values of a column over a set of files
+ */
+export function aggregateColumn(files: any[], column: string, name: string): EvaluationResult {
+  const aggregation = AGGREGATIONS[normalizeAggregationName(name)];
+  if (!aggregation) {
+    return {
+      ok: false,
+      error: { code: "invalid-argument", message: `Unknown aggregation '${name}'` },
+    };
+  }
+  return { ok: true, value: aggregation(files.map((file) => getColumnValue(file, column))) };
+}
+
+/**
+ * Format the result of an aggregation for display
+ */
+export function formatAggregate(name: string, value: any): string {
+  if (kindOf(value) === "null") return "—";
+  const normalized = normalizeAggregationName(name);
+  if (normalized === "percent-checked") return `${Math.round(value)}%`;
+  if (normalized === "average" || normalized === "median") {
+    return displayString(roundAggregate(value));
+  }
+  return displayString(value);
+}
+
+/**
+ * Label shown next to an aggregation's result, e.g. `Sum`
+ */
+export function aggregationLabel(name: string): string {
+  const normalized = normalizeAggregationName(name);
+  if (!AGGREGATIONS[normalized]) return name;
+  const words = normalized.replace(/-/g, " ");
+  return words.charAt(0).toUpperCase() + words.substring(1);
+}
+
+function normalizeAggregationName(name: string): string {
+  const normalized = name.trim().toLowerCase().replace(/[\s_]+/g, "-");
+  return AGGREGATION_ALIASES[normalized] ?? normalized;
+}
+
+function isEmptyValue(value: any): boolean {
+  if (kindOf(value) === "null") return true;
+  return (typeof value === "string" || Array.isArray(value)) && !isTruthy(value);
+}
+
+/**
+ * Numbers among the values, including numeric strings
+ */
+function numericValues(values: any[]): number[] {
+  return values.map((value) => coerce(value, "number")).filter((value) => value !== undefined);
+}
+
+/**
+ * Dates among the values, including date strings
+ */
+function dateValues(values: any[]): any[] {
+  return values
+    .filter((value) => kindOf(value) === "date" || kindOf(value) === "string")
+    .map((value) => coerce(value, "date"))
+    .filter((value) => value !== undefined);
+}
+
+/**
+ * The smallest (direction -1) or largest (direction 1) of a list of comparable values
+ */
+function extreme(values: any[], direction: 1 | -1): any {
+  if (values.length === 0) return null;
+  return values.reduce((best, value) =>
+    (compareOrder(value, best) ?? 0) * direction > 0 ? value : best
+  );
+}
+
+function roundAggregate(value: number): number {
+  return Math.round(value * 100) / 100;
+}
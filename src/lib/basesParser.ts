@@ -1,4 +1,31 @@
 import * as yaml from "js-yaml";
+import { isCollection, isSeq, parseDocument } from "yaml";
+import {
+  analyzeFormulas,
+  BasesFile,
+  compareForSort,
+  compile,
+  displayString,
+  ExpressionError,
+  formulaDependencies,
+  indexBacklinks,
+  formulasReading,
+  isCircular,
+  isTruthy,
+  kindOf,
+  operandsOf,
+  parseDate,
+  parseExpression,
+  toDateTime,
+  toEvaluationError,
+  tryEvaluate,
+  type CompiledExpression,
+  type EvaluationContext,
+  type EvaluationError,
+  type EvaluationResult,
+  type Expression,
+  type FormulaGraph,
+} from "../bases-expression";
 
 // Simplified types for a Base file
 export interface BaseFile {
@@ -14,13 +41,56 @@ export interface BaseView {
   limit?: number;
   filters?: any;
   order?: string[];
+  /** Column widths in pixels, keyed like `order` */
+  column_size?: Record<string, number>;
+  sort?: SortSpec[];
   group_by?: string;
-  agg?: string;
+  /** Board columns to show first, in this order, even when they have no cards */
+  group_order?: string[];
+  /** Board columns to leave out; `No value` hides the column of cards without a value */
+  hidden_groups?: string[];
+  /** Most cards a board column should hold, keyed by column */
+  wip_limits?: Record<string, number>;
+  /** Group dates on a board by the day, week or month they fall in */
+  date_bucket?: DateBucket;
+  /**
+   * Date properties a calendar or timeline places files by; `date_field` is the older name of
+   * `start_field`
+   */
+  date_field?: string;
+  start_field?: string;
+  end_field?: string;
+  /** The calendar's initial mode: `month`, `week`, `day` or `agenda` */
+  calendar_mode?: string;
+  /** First day of the calendar week, as a day name or a number from 0 (Sunday) */
+  week_start?: string | number;
+  /** The timeline's initial zoom: `day`, `week`, `month` or `quarter` */
+  timeline_zoom?: string;
+  /** One aggregation for every column, or aggregations by column */
+  agg?: string | Record<string, string>;
   lat?: string;
   long?: string;
   title?: string;
 }
 
+/**
+ * A sort entry of a view as written in the YAML. Dataview conversions write `column`,
+ * Obsidian writes `property`; the direction may be upper or lower case
+ */
+export interface SortSpec {
+  column?: string;
+  property?: string;
+  direction?: string;
+}
+
+/**
+ * A column to sort by
+ */
+export interface SortKey {
+  column: string;
+  direction: "asc" | "desc";
+}
+
 /**
  * Parse a base YAML file content
  */
@@ -34,792 +104,878 @@ export function parseBaseFile(content: string): BaseFile | null {
 }
 
 /**
- * Apply a formula to a file
+ * The view added to bases without views when one of its options is set
  */
-export function applyFormula(file: any, formula: string): any {
-  if (!formula) return "N/A";
-
-  return evaluateFormulaExpression(file, formula);
-}
+const DEFAULT_VIEW = { type: "table", name: "Table" };
 
 /**
- * Get a property value from a file
+ * Set an option of a view in the YAML source of a base, e.g. `["column_size", "file.name"]`.
+ * Only the option's node is replaced, so comments and formatting elsewhere are kept. Bases
+ * without views get a table view. Throws if the source can't be edited this way
  */
-export function getPropertyValue(file: any, propPath: string): any {
-  if (!propPath) return undefined;
-
-  propPath = propPath.trim();
-
-  // Handle quoted property names
-  if (propPath.startsWith('"') && propPath.endsWith('"')) {
-    propPath = propPath.substring(1, propPath.length - 1);
+export function setViewOption(
+  content: string,
+  viewIndex: number,
+  path: string[],
+  value: unknown
+): string {
+  const document = parseDocument(content);
+  if (document.errors.length) {
+    throw new Error(`Couldn't write ${path.join(".")} back to the base: ${document.errors[0].message}`);
   }
 
-  // Special case for file.file - return the full file object for functions like taggedWith
-  if (propPath === "file.file") {
-    return file.file;
-  }
-
-  // Handle file properties
-  if (propPath.startsWith("file.")) {
-    const key = propPath.substring(5);
-    return file.file[key];
-  }
-
-  // Handle formulas - first check cache, then calculate if needed
-  if (propPath.startsWith("formula.")) {
-    const key = propPath.substring(8);
+  const views = document.get("views");
+  const count = isSeq(views) ? views.items.length : 0;
+  if (count === 0) document.set("views", document.createNode([DEFAULT_VIEW]));
+  const location = ["views", Math.min(viewIndex, Math.max(count - 1, 0)), ...path];
 
-    // Check if we have a pre-calculated value in the cache
-    if (file._formulaCache && file._formulaCache[key] !== undefined) {
-      return file._formulaCache[key];
-    }
-
-    // Otherwise calculate and potentially cache the result
-    const result = calculateFormulaValue(file, key);
-
-    // Cache the result for future use
-    if (file._formulaCache) {
-      file._formulaCache[key] = result;
-    } else {
-      file._formulaCache = { [key]: result };
-    }
+  // Lists and maps written inline, e.g. `order: [a, b]`, stay inline
+  const node = document.createNode(value);
+  const existing = document.getIn(location, true);
+  if (isCollection(node) && isCollection(existing)) node.flow = existing.flow;
 
-    return result;
-  }
-
-  console.log(propPath, file[propPath], file);
-
-  // Regular properties
-  return file[propPath];
+  document.setIn(location, node);
+  return document.toString({ lineWidth: 0 });
 }
 
 /**
- * Calculate formula value
+ * Set an option of a view in a parsed base, the way setViewOption sets it in the source. Used for
+ * options that only change how the files are laid out, so the files don't need to be filtered
+ * and calculated again
  */
-function calculateFormulaValue(file: any, formulaKey: string): any {
-  // Get the formula string from the parsedBase
-  if (!file || !formulaKey) return undefined;
-
-  // If we're passed a formula directly instead of a key
-  if (
-    formulaKey.includes("(") ||
-    formulaKey.includes("/") ||
-    formulaKey.includes("==")
-  ) {
-    return evaluateFormulaExpression(file, formulaKey);
-  }
-
-  // Try to get the formula from the parsed base
-  const formula = file._baseData?.formulas?.[formulaKey];
-  if (!formula) {
-    console.log("Formula not found:", formulaKey, file);
-    // Basic fallback for demo purposes
-    if (formulaKey === "ppu") {
-      return file.price && file.age ? file.price / file.age : NaN;
-    } else if (formulaKey === "formatted_price") {
-      return file.price ? `${file.price} dollars` : "N/A";
-    } else if (formulaKey === "read_status") {
-      return file.status === "Done" ? "Read" : "Unread";
-    } else if (formulaKey === "reading_time") {
-      return file.wordCount ? file.wordCount / 250 : NaN;
-    }
-    return "N/A";
+export function applyViewOption(base: BaseFile, viewIndex: number, path: string[], value: unknown): void {
+  if (!Array.isArray(base.views) || base.views.length === 0) base.views = [{ ...DEFAULT_VIEW }];
+  let target: any = base.views[Math.min(viewIndex, base.views.length - 1)];
+  for (const key of path.slice(0, -1)) {
+    if (!target[key] || typeof target[key] !== "object") target[key] = {};
+    target = target[key];
   }
-
-  // Evaluate the formula
-  return evaluateFormulaExpression(file, formula);
+  target[path[path.length - 1]] = value;
 }
 
 /**
- * Evaluate a formula expression
+ * A formula or filter error found while previewing a base
  */
-function evaluateFormulaExpression(file: any, expression: string): any {
-  if (!expression) return "N/A";
-
-  try {
-    // Handle if conditions: if(condition, trueValue, falseValue)
-    if (expression.startsWith("if(") && expression.endsWith(")")) {
-      const params = parseParameters(
-        expression.substring(3, expression.length - 1)
-      );
-      if (params.length >= 3) {
-        const condition = params[0].trim();
-        const trueValue = params[1].trim();
-        const falseValue = params[2].trim();
-
-        // Evaluate the condition
-        const conditionResult = evaluateCondition(file, condition);
-
-        // Return the appropriate value based on the condition
-        if (conditionResult) {
-          // Remove quotes if the value is a string literal
-          if (
-            (trueValue.startsWith('"') && trueValue.endsWith('"')) ||
-            (trueValue.startsWith("'") && trueValue.endsWith("'"))
-          ) {
-            return trueValue.substring(1, trueValue.length - 1);
-          }
-          // Check if this is a formula reference
-          if (trueValue.startsWith("formula.")) {
-            return calculateFormulaValue(file, trueValue.substring(8));
-          }
-          // Check if it's a property reference
-          return getPropertyValue(file, trueValue);
-        } else {
-          // Remove quotes if the value is a string literal
-          if (
-            (falseValue.startsWith('"') && falseValue.endsWith('"')) ||
-            (falseValue.startsWith("'") && falseValue.endsWith("'"))
-          ) {
-            return falseValue.substring(1, falseValue.length - 1);
-          }
-          // Check if this is a formula reference
-          if (falseValue.startsWith("formula.")) {
-            return calculateFormulaValue(file, falseValue.substring(8));
-          }
-          // Check if it's a property reference
-          return getPropertyValue(file, falseValue);
-        }
-      }
-      return "N/A";
-    }
-
-    // Handle concat function
-    if (expression.startsWith("concat(") && expression.endsWith(")")) {
-      const paramsStr = expression.substring(7, expression.length - 1);
-      const params = parseParameters(paramsStr);
-
-      return params
-        .map((param) => {
-          param = param.trim();
-          // If it's a string literal, remove the quotes
-          if (
-            (param.startsWith('"') && param.endsWith('"')) ||
-            (param.startsWith("'") && param.endsWith("'"))
-          ) {
-            return param.substring(1, param.length - 1);
-          }
-
-          // Check if this is a formula reference
-          if (param.startsWith("formula.")) {
-            return calculateFormulaValue(file, param.substring(8));
-          }
-
-          // Get property value
-          return getPropertyValue(file, param);
-        })
-        .join("");
-    }
-
-    // Handle basic arithmetic operations
-    // Division
-    if (expression.includes("/")) {
-      const [left, right] = expression.split("/").map((part) => part.trim());
-
-      // Get the values for the left and right operands
-      let leftValue: any = left;
-      let rightValue: any = right;
-
-      // Check for formula references
-      if (left.startsWith("formula.")) {
-        leftValue = calculateFormulaValue(file, left.substring(8));
-      } else {
-        leftValue = getPropertyValue(file, left);
-      }
+export interface Problem {
+  /** Where the expression comes from, e.g. `formula.ppu` or `view filter` */
+  source: string;
+  expression: string;
+  error: EvaluationError;
+  /** Number of notes the error occurred for; 0 if it was found without evaluating */
+  count: number;
+}
 
-      if (right.startsWith("formula.")) {
-        rightValue = calculateFormulaValue(file, right.substring(8));
-      } else {
-        rightValue = getPropertyValue(file, right);
-      }
+/**
+ * Apply a formula to a file, returning its value or the error it raised
+ */
+export function applyFormula(file: any, formula: string): EvaluationResult {
+  return evaluateExpression(file, formula);
+}
 
-      // Convert to numbers if needed
-      if (typeof leftValue === "string") leftValue = Number(leftValue);
-      if (typeof rightValue === "string") rightValue = Number(rightValue);
+/**
+ * Format a property or formula value for display in the preview
+ */
+export function formatValue(value: any): string {
+  return displayString(value);
+}
 
-      // Perform the division
-      return leftValue / rightValue;
-    }
+/**
+ * A column of a table view
+ */
+export interface ViewColumn {
+  /** The column as written in the view's `order`, e.g. `file.name` or `formula.ppu` */
+  key: string;
+  label: string;
+}
 
-    // Multiplication
-    if (expression.includes("*")) {
-      const [left, right] = expression.split("*").map((part) => part.trim());
+/**
+ * Columns shown when neither the view's `order` nor the base's `display` lists any
+ */
+const DEFAULT_COLUMNS: Record<string, string> = {
+  "file.name": "File",
+  status: "Status",
+  priority: "Priority",
+  price: "Price",
+  age: "Age",
+};
 
-      // Get the values for the left and right operands
-      let leftValue: any = left;
-      let rightValue: any = right;
+/**
+ * Resolve the columns of a view: those listed in its `order`, or else the file name followed by
+ * the properties in the base's `display`. Columns are labelled by `display`, which may name a
+ * note property with or without its `note.`/`property.` prefix
+ */
+export function getViewColumns(base: BaseFile, view: BaseView | undefined): ViewColumn[] {
+  const display: Record<string, any> =
+    base.display && typeof base.display === "object" ? base.display : {};
+
+  let keys: string[];
+  if (Array.isArray(view?.order) && view.order.length > 0) {
+    keys = view.order.filter((key): key is string => typeof key === "string" && key.trim() !== "");
+  } else if (Object.keys(display).length > 0) {
+    keys = ["file.name", ...Object.keys(display).filter((key) => key !== "file.name")];
+  } else {
+    return Object.entries(DEFAULT_COLUMNS).map(([key, label]) => ({ key, label }));
+  }
 
-      // Check for formula references
-      if (left.startsWith("formula.")) {
-        leftValue = calculateFormulaValue(file, left.substring(8));
-      } else {
-        leftValue = getPropertyValue(file, left);
-      }
+  return keys.map((key) => ({ key: key.trim(), label: columnLabel(key.trim(), display) }));
+}
 
-      if (right.startsWith("formula.")) {
-        rightValue = calculateFormulaValue(file, right.substring(8));
-      } else {
-        rightValue = getPropertyValue(file, right);
-      }
+/**
+ * File properties offered as columns in addition to those the base mentions
+ */
+const FILE_COLUMNS = [
+  "file.name",
+  "file.path",
+  "file.folder",
+  "file.ext",
+  "file.size",
+  "file.ctime",
+  "file.mtime",
+];
 
-      // Convert to numbers if needed
-      if (typeof leftValue === "string") leftValue = Number(leftValue);
-      if (typeof rightValue === "string") rightValue = Number(rightValue);
+/**
+ * Every column a view could show: its current columns first, then the base's display
+ * properties and formulas, file properties, and the note properties found in `files`
+ */
+export function getAvailableColumns(
+  base: BaseFile,
+  view: BaseView | undefined,
+  files: any[]
+): ViewColumn[] {
+  const display: Record<string, any> =
+    base.display && typeof base.display === "object" ? base.display : {};
+  const formulas = base.formulas && typeof base.formulas === "object" ? base.formulas : {};
+
+  // Note properties of a sample of the files; the rest are usually alike
+  const properties = new Set<string>();
+  for (const file of files.slice(0, 100)) {
+    Object.keys(file).forEach((key) => {
+      if (key !== "file" && !key.startsWith("_")) properties.add(key);
+    });
+  }
 
-      // Perform the multiplication
-      return leftValue * rightValue;
-    }
+  // `note.age`, `property.age` and `age` are the same column
+  const columns: ViewColumn[] = [];
+  const seen = new Set<string>();
+  const add = (key: string) => {
+    const name = normalizeColumn(key);
+    if (seen.has(name)) return;
+    seen.add(name);
+    columns.push({ key, label: columnLabel(key, display) });
+  };
+
+  getViewColumns(base, view).forEach((column) => add(column.key));
+  Object.keys(display).forEach(add);
+  Object.keys(formulas).forEach((name) => add(`formula.${name}`));
+  FILE_COLUMNS.forEach(add);
+  properties.forEach(add);
+  return columns;
+}
 
-    // Addition
-    if (expression.includes("+")) {
-      const [left, right] = expression.split("+").map((part) => part.trim());
+/**
+ * Strip the `note.` or `property.` prefix from a note property column; other columns,
+ * such as `file.name` or `formula.ppu`, are returned as they are
+ */
+export function normalizeColumn(column: string): string {
+  const trimmed = column.trim();
+  if (trimmed.startsWith("property.")) return trimmed.substring(9);
+  if (trimmed.startsWith("note.")) return trimmed.substring(5);
+  return trimmed;
+}
 
-      // Get the values for the left and right operands
-      let leftValue: any = left;
-      let rightValue: any = right;
+function columnLabel(key: string, display: Record<string, any>): string {
+  const name = normalizeColumn(key);
+  const label = [key, name, `note.${name}`, `property.${name}`]
+    .map((candidate) => display[candidate])
+    .find((candidate) => candidate !== undefined && candidate !== null);
+  if (label !== undefined) return String(label);
 
-      // Check for formula references
-      if (left.startsWith("formula.")) {
-        leftValue = calculateFormulaValue(file, left.substring(8));
-      } else {
-        leftValue = getPropertyValue(file, left);
-      }
+  // Without a display name, formulas and file properties show their name without the prefix
+  if (name === "file.name") return DEFAULT_COLUMNS["file.name"];
+  return name.replace(/^(file|formula)\./, "");
+}
 
-      if (right.startsWith("formula.")) {
-        rightValue = calculateFormulaValue(file, right.substring(8));
-      } else {
-        rightValue = getPropertyValue(file, right);
-      }
+/**
+ * Read the sort keys of a view, skipping entries without a column
+ */
+export function getSortKeys(sort: any): SortKey[] {
+  if (!Array.isArray(sort)) return [];
+
+  return sort.flatMap((entry: any): SortKey[] => {
+    const column = typeof entry === "string" ? entry : (entry?.property ?? entry?.column);
+    if (typeof column !== "string" || !column.trim()) return [];
+    const direction = String(entry?.direction ?? "asc").toLowerCase() === "desc" ? "desc" : "asc";
+    return [{ column: column.trim(), direction }];
+  });
+}
 
-      // If either is a string, do string concatenation
-      if (typeof leftValue === "string" || typeof rightValue === "string") {
-        return String(leftValue) + String(rightValue);
+/**
+ * Sort files by one or more columns. Numbers, dates and durations sort by value and strings
+ * in natural, locale-aware order; see compareForSort. Files without a value come last in
+ * either direction, and files which compare equal keep their order
+ */
+export function sortFiles(files: any[], keys: SortKey[]): any[] {
+  if (keys.length === 0) return files;
+
+  // Read every sort value once rather than on each comparison
+  const rows = files.map((file) => ({
+    file,
+    values: keys.map((key) => getColumnValue(file, key.column)),
+  }));
+
+  rows.sort((a, b) => {
+    for (let i = 0; i < keys.length; i++) {
+      const left = a.values[i];
+      const right = b.values[i];
+      const leftMissing = kindOf(left) === "null";
+      const rightMissing = kindOf(right) === "null";
+      if (leftMissing || rightMissing) {
+        if (leftMissing !== rightMissing) return leftMissing ? 1 : -1;
+        continue;
       }
 
-      // Otherwise do numeric addition
-      return leftValue + rightValue;
+      const order = compareForSort(left, right);
+      if (order !== 0) return keys[i].direction === "desc" ? -order : order;
     }
+    return 0;
+  });
 
-    // Subtraction
-    if (expression.includes("-")) {
-      const [left, right] = expression.split("-").map((part) => part.trim());
-
-      // Get the values for the left and right operands
-      let leftValue: any = left;
-      let rightValue: any = right;
-
-      // Check for formula references
-      if (left.startsWith("formula.")) {
-        leftValue = calculateFormulaValue(file, left.substring(8));
-      } else {
-        leftValue = getPropertyValue(file, left);
-      }
+  return rows.map((row) => row.file);
+}
 
-      if (right.startsWith("formula.")) {
-        rightValue = calculateFormulaValue(file, right.substring(8));
-      } else {
-        rightValue = getPropertyValue(file, right);
-      }
+/**
+ * A group of files sharing a value of a view's `group_by`
+ */
+export interface FileGroup {
+  /** The value as displayed, identifying the group; empty for files without a value */
+  key: string;
+  value: any;
+  files: any[];
+}
 
-      // Convert to numbers if needed
-      if (typeof leftValue === "string") leftValue = Number(leftValue);
-      if (typeof rightValue === "string") rightValue = Number(rightValue);
+/**
+ * The period dates are grouped by
+ */
+export type DateBucket = "day" | "week" | "month";
 
-      // Perform the subtraction
-      return leftValue - rightValue;
-    }
+/**
+ * Labels of date groups, e.g. `2025-05-27`, `2025-W22` and `2025-05`
+ */
+const DATE_BUCKET_FORMATS: Record<DateBucket, string> = {
+  day: "yyyy-MM-dd",
+  week: "kkkk-'W'WW",
+  month: "yyyy-MM",
+};
 
-    // If it's a simple property reference
-    if (
-      !expression.includes("(") &&
-      !expression.includes(")") &&
-      !expression.includes("+") &&
-      !expression.includes("-") &&
-      !expression.includes("*") &&
-      !expression.includes("/")
-    ) {
-      return getPropertyValue(file, expression);
+/**
+ * The group a value belongs to: its key and the value the group stands for. With a bucket,
+ * dates and date strings are grouped by the start of their day, week or month
+ */
+export function getGroupValue(value: any, bucket?: DateBucket): { key: string; value: any } {
+  const kind = kindOf(value);
+  if (kind === "null") return { key: "", value: null };
+
+  if (bucket && DATE_BUCKET_FORMATS[bucket]) {
+    const date = kind === "date" ? toDateTime(value) : kind === "string" ? parseDate(value) : null;
+    if (date) {
+      const start = date.startOf(bucket);
+      return { key: start.toFormat(DATE_BUCKET_FORMATS[bucket]), value: start };
     }
-
-    return "N/A";
-  } catch (err) {
-    console.error("Error evaluating formula expression:", expression, err);
-    return "Error";
   }
+  return { key: displayString(value), value };
 }
 
 /**
- * Evaluate a condition for the if() formula function
+ * Group files by the value of a column or expression. Files whose value is a list appear
+ * in the group of each element. Groups are ordered by value, with files without a value last;
+ * files keep their order within a group
  */
-function evaluateCondition(file: any, condition: string): boolean {
-  try {
-    // Handle equality check
-    if (condition.includes("==")) {
-      const [left, right] = condition.split("==").map((part) => part.trim());
-
-      // Get the values for comparison
-      let leftValue: any;
-      let rightValue: any;
-
-      // Check for formula references
-      if (left.startsWith("formula.")) {
-        leftValue = calculateFormulaValue(file, left.substring(8));
-      } else {
-        leftValue = getPropertyValue(file, left);
-      }
-
-      // Handle string literals for right value
-      if (
-        (right.startsWith('"') && right.endsWith('"')) ||
-        (right.startsWith("'") && right.endsWith("'"))
-      ) {
-        rightValue = right.substring(1, right.length - 1);
-      } else if (right.startsWith("formula.")) {
-        rightValue = calculateFormulaValue(file, right.substring(8));
-      } else {
-        rightValue = getPropertyValue(file, right);
-      }
-
-      return leftValue == rightValue;
+export function groupFiles(files: any[], groupBy: string, bucket?: DateBucket): FileGroup[] {
+  const groups = new Map<string, FileGroup>();
+  const add = (item: any, file: any) => {
+    const { key, value } = getGroupValue(item, bucket);
+    let group = groups.get(key);
+    if (!group) {
+      group = { key, value, files: [] };
+      groups.set(key, group);
     }
-
-    // Handle inequality check
-    if (condition.includes("!=")) {
-      const [left, right] = condition.split("!=").map((part) => part.trim());
-
-      // Get the values for comparison
-      let leftValue: any;
-      let rightValue: any;
-
-      // Check for formula references
-      if (left.startsWith("formula.")) {
-        leftValue = calculateFormulaValue(file, left.substring(8));
-      } else {
-        leftValue = getPropertyValue(file, left);
-      }
-
-      // Handle string literals for right value
-      if (
-        (right.startsWith('"') && right.endsWith('"')) ||
-        (right.startsWith("'") && right.endsWith("'"))
-      ) {
-        rightValue = right.substring(1, right.length - 1);
-      } else if (right.startsWith("formula.")) {
-        rightValue = calculateFormulaValue(file, right.substring(8));
-      } else {
-        rightValue = getPropertyValue(file, right);
-      }
-
-      return leftValue != rightValue;
+    // A list holding the same value twice still puts the file in its group once
+    if (group.files[group.files.length - 1] !== file) group.files.push(file);
+  };
+
+  for (const file of files) {
+    const value = getColumnValue(file, groupBy);
+    if (Array.isArray(value) && value.length > 0) {
+      value.forEach((item) => add(item, file));
+    } else {
+      add(Array.isArray(value) ? null : value, file);
     }
+  }
 
-    // Handle greater than
-    if (condition.includes(">") && !condition.includes(">=")) {
-      const [left, right] = condition.split(">").map((part) => part.trim());
-
-      // Get the values for comparison
-      let leftValue: any;
-      let rightValue: any;
-
-      // Check for formula references
-      if (left.startsWith("formula.")) {
-        leftValue = calculateFormulaValue(file, left.substring(8));
-      } else {
-        leftValue = getPropertyValue(file, left);
-      }
+  return [...groups.values()].sort((a, b) => {
+    if ((a.key === "") !== (b.key === "")) return a.key === "" ? 1 : -1;
+    return compareForSort(a.value, b.value) || a.key.localeCompare(b.key);
+  });
+}
 
-      // Handle string literals for right value
-      if (
-        (right.startsWith('"') && right.endsWith('"')) ||
-        (right.startsWith("'") && right.endsWith("'"))
-      ) {
-        rightValue = right.substring(1, right.length - 1);
-      } else if (right.startsWith("formula.")) {
-        rightValue = calculateFormulaValue(file, right.substring(8));
-      } else {
-        rightValue = getPropertyValue(file, right);
-      }
+/**
+ * Property paths such as `status`, `file.name` or `formula.ppu`, as opposed to expressions
+ */
+const PROPERTY_PATH = /^(?:"[^"]*"|[\p{L}\p{N}_.-]+)$/u;
 
-      // Convert to numbers if needed
-      if (typeof leftValue === "string") leftValue = Number(leftValue);
-      if (typeof rightValue === "string") rightValue = Number(rightValue);
+/**
+ * Get the value of a column, which is either a property path or an expression such as
+ * `file.name.lower()`. An expression which fails to evaluate has no value
+ */
+export function getColumnValue(file: any, column: string): any {
+  if (PROPERTY_PATH.test(column.trim())) return getPropertyValue(file, column);
 
-      return leftValue > rightValue;
-    }
+  const result = evaluateExpression(file, column);
+  return result.ok ? result.value : null;
+}
 
-    // Handle greater than or equal
-    if (condition.includes(">=")) {
-      const [left, right] = condition.split(">=").map((part) => part.trim());
+/**
+ * Calculated formula values per file. Kept outside the file objects so that copies of a file
+ * made when the base changes start with an empty cache
+ */
+const formulaCaches = new WeakMap<object, Map<string, EvaluationResult>>();
 
-      // Get the values for comparison
-      let leftValue: any;
-      let rightValue: any;
+/**
+ * Dependency graphs keyed by the `formulas` section they were built from
+ */
+const formulaGraphs = new WeakMap<object, FormulaGraph>();
 
-      // Check for formula references
-      if (left.startsWith("formula.")) {
-        leftValue = calculateFormulaValue(file, left.substring(8));
-      } else {
-        leftValue = getPropertyValue(file, left);
-      }
+/**
+ * Get the dependency graph of a base's formulas
+ */
+export function getFormulaGraph(formulas: Record<string, string> | undefined): FormulaGraph {
+  if (!formulas || typeof formulas !== "object") return analyzeFormulas({});
 
-      // Handle string literals for right value
-      if (
-        (right.startsWith('"') && right.endsWith('"')) ||
-        (right.startsWith("'") && right.endsWith("'"))
-      ) {
-        rightValue = right.substring(1, right.length - 1);
-      } else if (right.startsWith("formula.")) {
-        rightValue = calculateFormulaValue(file, right.substring(8));
-      } else {
-        rightValue = getPropertyValue(file, right);
-      }
+  let graph = formulaGraphs.get(formulas);
+  if (!graph) {
+    graph = analyzeFormulas(formulas);
+    formulaGraphs.set(formulas, graph);
+  }
+  return graph;
+}
 
-      // Convert to numbers if needed
-      if (typeof leftValue === "string") leftValue = Number(leftValue);
-      if (typeof rightValue === "string") rightValue = Number(rightValue);
+/**
+ * Calculate every formula of a base for each file, dependencies first
+ */
+export function precomputeFormulas(files: any[], baseData: BaseFile | null): void {
+  const graph = getFormulaGraph(baseData?.formulas);
 
-      return leftValue >= rightValue;
+  for (const file of files) {
+    for (const name of graph.order) {
+      getPropertyValue(file, `formula.${name}`);
     }
+  }
+}
 
-    // Handle less than
-    if (condition.includes("<") && !condition.includes("<=")) {
-      const [left, right] = condition.split("<").map((part) => part.trim());
-
-      // Get the values for comparison
-      let leftValue: any;
-      let rightValue: any;
+/**
+ * Get a property value from a file
+ */
+export function getPropertyValue(file: any, propPath: string): any {
+  if (!propPath) return undefined;
 
-      // Check for formula references
-      if (left.startsWith("formula.")) {
-        leftValue = calculateFormulaValue(file, left.substring(8));
-      } else {
-        leftValue = getPropertyValue(file, left);
-      }
+  propPath = propPath.trim();
 
-      // Handle string literals for right value
-      if (
-        (right.startsWith('"') && right.endsWith('"')) ||
-        (right.startsWith("'") && right.endsWith("'"))
-      ) {
-        rightValue = right.substring(1, right.length - 1);
-      } else if (right.startsWith("formula.")) {
-        rightValue = calculateFormulaValue(file, right.substring(8));
-      } else {
-        rightValue = getPropertyValue(file, right);
-      }
+  // Handle quoted property names
+  if (propPath.startsWith('"') && propPath.endsWith('"')) {
+    propPath = propPath.substring(1, propPath.length - 1);
+  }
 
-      // Convert to numbers if needed
-      if (typeof leftValue === "string") leftValue = Number(leftValue);
-      if (typeof rightValue === "string") rightValue = Number(rightValue);
+  // Special case for file.file - return the full file object for functions like taggedWith
+  if (propPath === "file.file") {
+    return file.file;
+  }
 
-      return leftValue < rightValue;
-    }
+  // Handle file properties the way expressions read them, so links and backlinks are Link values
+  if (propPath.startsWith("file.")) {
+    return new BasesFile(file, vaultFiles).get(propPath.substring(5));
+  }
 
-    // Handle less than or equal
-    if (condition.includes("<=")) {
-      const [left, right] = condition.split("<=").map((part) => part.trim());
+  // Handle explicit note properties
+  if (propPath.startsWith("note.") || propPath.startsWith("property.")) {
+    return file[normalizeColumn(propPath)];
+  }
 
-      // Get the values for comparison
-      let leftValue: any;
-      let rightValue: any;
+  // Handle formulas; a formula which fails to evaluate has no value
+  if (propPath.startsWith("formula.")) {
+    const result = getFormulaResult(file, propPath.substring(8));
+    return result.ok ? result.value : null;
+  }
 
-      // Check for formula references
-      if (left.startsWith("formula.")) {
-        leftValue = calculateFormulaValue(file, left.substring(8));
-      } else {
-        leftValue = getPropertyValue(file, left);
-      }
+  // Regular properties
+  return file[propPath];
+}
 
-      // Handle string literals for right value
-      if (
-        (right.startsWith('"') && right.endsWith('"')) ||
-        (right.startsWith("'") && right.endsWith("'"))
-      ) {
-        rightValue = right.substring(1, right.length - 1);
-      } else if (right.startsWith("formula.")) {
-        rightValue = calculateFormulaValue(file, right.substring(8));
-      } else {
-        rightValue = getPropertyValue(file, right);
-      }
+/**
+ * The note property a column shows, or null for file properties, formulas and expressions
+ */
+export function getNoteProperty(column: string): string | null {
+  const name = normalizeColumn(column);
+  if (!PROPERTY_PATH.test(name)) return null;
+  if (name.startsWith('"')) return name.substring(1, name.length - 1);
+  if (name.startsWith("file.") || name.startsWith("formula.")) return null;
+  return name;
+}
 
-      // Convert to numbers if needed
-      if (typeof leftValue === "string") leftValue = Number(leftValue);
-      if (typeof rightValue === "string") rightValue = Number(rightValue);
+/**
+ * Change a note property of a file and forget the cached results of the formulas that read it.
+ * Formulas which may read other notes are forgotten for every file of the vault
+ */
+export function setPropertyValue(file: any, property: string, value: any): void {
+  file[property] = value;
 
-      return leftValue <= rightValue;
+  const graph = getFormulaGraph(file._baseData?.formulas);
+  for (const name of formulasReading(graph, property)) {
+    const readsAnything = [name, ...formulaDependencies(graph, name)].some(
+      (formula) => graph.properties[formula] === null
+    );
+    for (const other of readsAnything ? vaultFiles : [file]) {
+      formulaCaches.get(other)?.delete(name);
     }
-
-    // For simple property checks (like 'status' alone)
-    return !!getPropertyValue(file, condition);
-  } catch (err) {
-    console.error("Error evaluating condition:", condition, err);
-    return false;
+    formulaCaches.get(file)?.delete(name);
   }
 }
 
 /**
- * Parse a value from a string, handling quotes and numeric values
+ * Get the value of one of the base's formulas for a file, or the error it raised.
+ * Results are cached per file
  */
-function parseValue(value: string): any {
-  // Handle string literals
-  if (
-    (value.startsWith('"') && value.endsWith('"')) ||
-    (value.startsWith("'") && value.endsWith("'"))
-  ) {
-    return value.substring(1, value.length - 1);
+export function getFormulaResult(file: any, name: string): EvaluationResult {
+  let cache = formulaCaches.get(file);
+  if (!cache) {
+    cache = new Map();
+    formulaCaches.set(file, cache);
   }
 
-  // Handle numbers
-  if (!isNaN(Number(value))) {
-    return Number(value);
+  let result = cache.get(name);
+  if (!result) {
+    result = calculateFormula(file, name);
+    cache.set(name, result);
   }
-
-  // Handle booleans
-  if (value === "true") return true;
-  if (value === "false") return false;
-
-  // Return as is for properties
-  return value;
+  return result;
 }
 
 /**
- * Evaluate a function expression against a file
+ * Calculate a formula of the file's base
  */
-function evaluateFunction(file: any, expression: string): boolean {
-  // Extract function name and parameters
-  const match = expression.match(/(\w+)\((.*)\)/);
-  if (!match) return false;
+function calculateFormula(file: any, name: string): EvaluationResult {
+  const formulas = file._baseData?.formulas;
+  const graph = getFormulaGraph(formulas);
+
+  // Refuse to follow circular references instead of recursing forever
+  if (isCircular(graph, name)) {
+    const cycle = graph.diagnostics.find(
+      (diagnostic) => diagnostic.code === "circular-reference" && diagnostic.formula === name
+    );
+    return {
+      ok: false,
+      error: {
+        code: "circular-reference",
+        message: cycle?.message ?? `Formula '${name}' is part of a circular reference`,
+      },
+    };
+  }
 
-  const [_, functionName, paramsStr] = match;
-  const params = parseParameters(paramsStr);
-  // Handle specific functions
-  switch (functionName) {
-    case "taggedWith":
-      return evaluateTaggedWith(file, params);
-    case "linksTo":
-      return evaluateLinksTo(file, params);
-    case "inFolder":
-      return evaluateInFolder(file, params);
-    case "contains":
-      return evaluateContains(file, params);
-    case "empty":
-      return evaluateEmpty(file, params);
-    default:
-      return false;
+  const formula = formulas?.[name];
+  if (formula === undefined || formula === null) {
+    return {
+      ok: false,
+      error: { code: "undefined-formula", message: `Formula '${name}' is not defined` },
+    };
   }
+
+  return evaluateExpression(file, String(formula));
 }
 
 /**
- * Parse function parameters, handling commas in quoted strings
+ * Parsed expressions keyed by their source text, so each distinct expression is only parsed once.
+ * The least recently used expressions are dropped beyond PARSED_EXPRESSION_LIMIT, since every
+ * edit of the base can add new ones
  */
-function parseParameters(paramsStr: string): string[] {
-  const params: string[] = [];
-  let currentParam = "";
-  let inQuotes = false;
-  let quoteChar = "";
-
-  for (let i = 0; i < paramsStr.length; i++) {
-    const char = paramsStr[i];
-
-    if (
-      (char === '"' || char === "'") &&
-      (i === 0 || paramsStr[i - 1] !== "\\")
-    ) {
-      if (!inQuotes) {
-        inQuotes = true;
-        quoteChar = char;
-      } else if (char === quoteChar) {
-        inQuotes = false;
-      }
-      currentParam += char;
-    } else if (char === "," && !inQuotes) {
-      params.push(currentParam.trim());
-      currentParam = "";
-    } else {
-      currentParam += char;
+const parsedExpressions = new Map<string, Expression>();
+
+const PARSED_EXPRESSION_LIMIT = 500;
+
+function getParsedExpression(expression: string): Expression {
+  let parsed = parsedExpressions.get(expression);
+  if (parsed) {
+    // Move the expression to the end, which holds the most recently used ones
+    parsedExpressions.delete(expression);
+  } else {
+    parsed = parseExpression(expression);
+    if (parsedExpressions.size >= PARSED_EXPRESSION_LIMIT) {
+      parsedExpressions.delete(parsedExpressions.keys().next().value!);
     }
   }
-
-  if (currentParam.trim()) {
-    params.push(currentParam.trim());
-  }
-
-  return params;
+  parsedExpressions.set(expression, parsed);
+  return parsed;
 }
 
 /**
- * Evaluate the taggedWith function
+ * All files of the previewed vault, used to resolve links and backlinks
  */
-function evaluateTaggedWith(file: any, params: string[]): boolean {
-  if (params.length < 2) return false;
-
-  const fileObj = getPropertyValue(file, params[0]);
-  const tagToCheck = parseValue(params[1]);
-
-  // Check tags in the file.tags property (where we've added them in the mockDataGenerator)
-  if (fileObj && fileObj.tags && Array.isArray(fileObj.tags)) {
-    return fileObj.tags.includes(tagToCheck);
-  }
-
-  // Fallback to checking in the root tags property
-  if (file.tags && Array.isArray(file.tags)) {
-    return file.tags.includes(tagToCheck);
-  }
+let vaultFiles: any[] = [];
 
-  return false;
+/**
+ * Set the files that make up the previewed vault
+ */
+export function setVaultFiles(files: any[]): void {
+  vaultFiles = files;
+  indexBacklinks(files);
 }
 
 /**
- * Evaluate the linksTo function
+ * Build the evaluation context for a file
  */
-function evaluateLinksTo(file: any, params: string[]): boolean {
-  if (params.length < 2) return false;
-
-  const fileObj = getPropertyValue(file, params[0]);
-  const pathToCheck = parseValue(params[1]);
+function createContext(file: any): EvaluationContext {
+  return {
+    file,
+    files: vaultFiles,
+    formula: (name: string) => {
+      const result = getFormulaResult(file, name);
+      if (result.ok) return result.value;
+
+      // Errors of a referenced formula make the referencing expression fail too
+      const { code, message } = result.error;
+      const passThrough = code === "circular-reference" || code === "undefined-formula";
+      throw new ExpressionError(
+        passThrough ? message : `formula.${name}: ${message}`,
+        undefined,
+        code
+      );
+    },
+  };
+}
 
-  // Check if the file has links to the specified path
-  if (fileObj && fileObj.links && Array.isArray(fileObj.links)) {
-    return fileObj.links.includes(pathToCheck);
+/**
+ * Evaluate a formula or filter expression against a file
+ */
+export function evaluateExpression(file: any, expression: string): EvaluationResult {
+  let parsed: Expression;
+  try {
+    parsed = getParsedExpression(expression);
+  } catch (error) {
+    return { ok: false, error: toEvaluationError(error) };
   }
-
-  // Fallback to checking for path inclusion
-  return file.file.path.includes(pathToCheck);
+  return tryEvaluate(parsed, createContext(file));
 }
 
 /**
- * Evaluate the inFolder function
+ * Why a file passes or fails a filter. Mirrors the filter's structure: `and`, `or` and `not`
+ * nodes hold the explanations of their conditions, `expression` nodes the evaluated expression
  */
-function evaluateInFolder(file: any, params: string[]): boolean {
-  if (params.length < 2) return false;
-
-  const fileObj = getPropertyValue(file, params[0]);
-  const folderToCheck = parseValue(params[1]);
+export interface FilterExplanation {
+  kind: "and" | "or" | "not" | "expression";
+  passed: boolean;
+  /** Name shown for the node, e.g. `base filter` */
+  label?: string;
+  /** The explanations of an and/or/not node's conditions */
+  children: FilterExplanation[];
+  /** The expression text of an expression node */
+  expression?: string;
+  /** The value the expression evaluated to, or its error */
+  result?: EvaluationResult;
+  /** The values of the expression's top-level operands, e.g. both sides of a comparison */
+  operands?: FilterOperand[];
+}
 
-  // Check if the file's folder contains the folder path
-  return file.file.folder.includes(folderToCheck);
+/**
+ * A part of a filter expression together with its value
+ */
+export interface FilterOperand {
+  source: string;
+  result: EvaluationResult;
 }
 
 /**
- * Evaluate the contains function
+ * A filter expression which failed to evaluate on a file
  */
-function evaluateContains(file: any, params: string[]): boolean {
-  if (params.length < 2) return false;
+export interface FilterError {
+  expression: string;
+  error: EvaluationError;
+}
 
-  const target = getPropertyValue(file, params[0]);
-  const query = parseValue(params[1]);
+/**
+ * A filter compiled into a function deciding whether a file passes it. Expressions failing on the
+ * file are added to `errors`, if given
+ */
+export type CompiledFilter = (file: any, errors?: FilterError[]) => boolean;
 
-  if (Array.isArray(target)) {
-    return target.includes(query);
-  }
+/**
+ * Compiled filters keyed by the filter object of the parsed base, so each filter is compiled
+ * once per parse of the base
+ */
+const compiledFilters = new WeakMap<object, CompiledFilter>();
 
-  if (typeof target === "string") {
-    return target.includes(query);
-  }
+/**
+ * Apply filters to a list of files
+ */
+export function applyFilters(files: any[], filters: any): any[] {
+  if (!filters) return files;
 
-  return false;
+  const passes = compileFilter(filters);
+  return files.filter((file) => passes(file));
 }
 
 /**
- * Evaluate the empty function
+ * Compile a filter into a function. and/or stop at the first condition deciding the outcome;
+ * use explainFilter to see how every condition evaluates
  */
-function evaluateEmpty(file: any, params: string[]): boolean {
-  if (params.length < 1) return false;
+export function compileFilter(filter: any): CompiledFilter {
+  // String expressions are cached through their parsed expression
+  if (typeof filter === "string") return compileFilterExpression(filter);
+  if (!filter || typeof filter !== "object") return () => true;
+
+  let compiled = compiledFilters.get(filter);
+  if (!compiled) {
+    compiled = compileConditions(filter);
+    compiledFilters.set(filter, compiled);
+  }
+  return compiled;
+}
 
-  const target = getPropertyValue(file, params[0]);
+function compileConditions(filter: any): CompiledFilter {
+  if (filter.and) {
+    const compiled = conditions(filter.and).map(compileFilter);
+    return (file, errors) => compiled.every((condition) => condition(file, errors));
+  }
 
-  if (Array.isArray(target)) {
-    return target.length === 0;
+  if (filter.or) {
+    const compiled = conditions(filter.or).map(compileFilter);
+    return (file, errors) => compiled.some((condition) => condition(file, errors));
   }
 
-  if (typeof target === "string") {
-    return target.length === 0;
+  if (filter.not) {
+    const compiled = conditions(filter.not).map(compileFilter);
+    return (file, errors) => !compiled.some((condition) => condition(file, errors));
   }
 
-  if (typeof target === "object" && target !== null) {
-    return Object.keys(target).length === 0;
+  // Default to true if no recognizable filter structure
+  return () => true;
+}
+
+/**
+ * Compile a single filter expression. Files for which it fails to evaluate are left out;
+ * see collectProblems
+ */
+function compileFilterExpression(expression: string): CompiledFilter {
+  let compiled: CompiledExpression;
+  try {
+    compiled = compile(getParsedExpression(expression));
+  } catch (e) {
+    const error = toEvaluationError(e);
+    return (_file, errors) => {
+      errors?.push({ expression, error });
+      return false;
+    };
   }
 
-  return !target;
+  return (file, errors) => {
+    try {
+      return isTruthy(compiled(createContext(file)));
+    } catch (e) {
+      errors?.push({ expression, error: toEvaluationError(e) });
+      return false;
+    }
+  };
 }
 
 /**
- * Apply filters to a list of files
- * This is a more comprehensive implementation that handles nested conditions
+ * The filter errors of each file in the last applyViewFilters pass over it, for collectProblems
  */
-export function applyFilters(files: any[], filters: any): any[] {
-  if (!filters) return files;
+const filterErrors = new WeakMap<object, Omit<Problem, "count">[]>();
 
-  return files.filter((file) => evaluateFilter(file, filters));
+/**
+ * Apply the base's filters and then the view's filters to a list of files, recording the
+ * expressions that fail on each file
+ */
+export function applyViewFilters(files: any[], base: BaseFile, view: BaseView | undefined): any[] {
+  const passesBase = compileFilter(base.filters);
+  const passesView = compileFilter(view?.filters);
+  const errors: FilterError[] = [];
+
+  return files.filter((file) => {
+    errors.length = 0;
+    const passedBase = passesBase(file, errors);
+    const baseErrors = errors.length;
+    const passed = passedBase && passesView(file, errors);
+
+    if (errors.length) {
+      filterErrors.set(
+        file,
+        errors.map((error, i) => ({ source: i < baseErrors ? "base filter" : "view filter", ...error }))
+      );
+    } else {
+      filterErrors.delete(file);
+    }
+    return passed;
+  });
 }
 
 /**
- * Evaluate a filter condition against a file
+ * Evaluate a filter against a file, explaining the outcome of every condition.
+ * All conditions are evaluated, so the explanation is complete even where and/or
+ * could have stopped early
  */
-function evaluateFilter(file: any, filter: any): boolean {
+export function explainFilter(file: any, filter: any, label?: string): FilterExplanation {
   // Handle string expressions (like "status != 'done'")
   if (typeof filter === "string") {
-    return evaluateExpression(file, filter);
+    return explainExpression(file, filter, label);
   }
 
-  // Handle AND condition
-  if (filter.and) {
-    return filter.and.every((condition: any) =>
-      evaluateFilter(file, condition)
-    );
-  }
+  if (filter && typeof filter === "object") {
+    // All conditions must pass
+    if (filter.and) {
+      const children = conditions(filter.and).map((condition) => explainFilter(file, condition));
+      return { kind: "and", label, children, passed: children.every((child) => child.passed) };
+    }
 
-  // Handle OR condition
-  if (filter.or) {
-    return filter.or.some((condition: any) => evaluateFilter(file, condition));
-  }
+    // At least one condition must pass
+    if (filter.or) {
+      const children = conditions(filter.or).map((condition) => explainFilter(file, condition));
+      return { kind: "or", label, children, passed: children.some((child) => child.passed) };
+    }
 
-  // Handle NOT condition
-  if (filter.not) {
-    if (Array.isArray(filter.not)) {
-      // If not is an array, none of the conditions should be true
-      return !filter.not.some((condition: any) =>
-        evaluateFilter(file, condition)
-      );
-    } else {
-      // If not is a single condition, negate it
-      return !evaluateFilter(file, filter.not);
+    // None of the conditions may pass; a single condition is negated
+    if (filter.not) {
+      const children = conditions(filter.not).map((condition) => explainFilter(file, condition));
+      return { kind: "not", label, children, passed: !children.some((child) => child.passed) };
     }
   }
 
   // Default to true if no recognizable filter structure
-  return true;
+  return { kind: "and", label, children: [], passed: true };
+}
+
+/**
+ * Explain whether a file is shown in a view: it must pass both the base's and the view's filters
+ */
+export function explainViewFilters(
+  file: any,
+  base: BaseFile,
+  view: BaseView | undefined
+): FilterExplanation {
+  const children: FilterExplanation[] = [];
+  if (base.filters) children.push(explainFilter(file, base.filters, "base filter"));
+  if (view?.filters) children.push(explainFilter(file, view.filters, "view filter"));
+  return { kind: "and", children, passed: children.every((child) => child.passed) };
+}
+
+function conditions(value: any): any[] {
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Evaluate a filter expression, recording the values of its operands
+ */
+function explainExpression(file: any, expression: string, label?: string): FilterExplanation {
+  const result = evaluateExpression(file, expression);
+  const explanation: FilterExplanation = {
+    kind: "expression",
+    label,
+    children: [],
+    expression,
+    result,
+    passed: result.ok && isTruthy(result.value),
+  };
+
+  // Expressions which don't parse have no operands to show
+  let parsed: Expression;
+  try {
+    parsed = getParsedExpression(expression);
+  } catch (e) {
+    return explanation;
+  }
+
+  // Literals are left out, their value is already visible in the expression
+  const context = createContext(file);
+  explanation.operands = operandsOf(parsed)
+    .filter((operand) => operand.type !== "literal" && operand.type !== "regex")
+    .map((operand) => ({
+      source: expression.substring(operand.span.start, operand.span.end),
+      result: tryEvaluate(operand, context),
+    }));
+  return explanation;
+}
+
+/**
+ * Evaluate a single filter expression string against a file
+ */
+export function evaluateFilterExpression(file: any, expression: string): boolean {
+  return compileFilterExpression(expression)(file);
 }
 
 /**
- * Evaluate a string expression against a file
+ * Collect the formula and filter errors of a view: problems found by analyzing the formulas and
+ * parsing the filters, filters that failed on any of `files` when applyViewFilters last ran, and
+ * formulas failing on any of the view's `rows`. Filter expressions skipped because an and/or had
+ * already decided are not evaluated again. Identical errors from the same expression are reported
+ * once with the number of notes affected
  */
-function evaluateExpression(file: any, expression: string): boolean {
-  // Handle function expressions like taggedWith(file.file, "tag")
-  if (expression.includes("(") && expression.includes(")")) {
-    return evaluateFunction(file, expression);
+export function collectProblems(
+  base: BaseFile,
+  view: BaseView | undefined,
+  files: any[],
+  rows: any[]
+): Problem[] {
+  const problems = new Map<string, Problem>();
+  const report = (source: string, expression: string, error: EvaluationError, count: number) => {
+    const key = `${source}\u0000${expression}\u0000${error.message}`;
+    const existing = problems.get(key);
+    if (existing) {
+      existing.count += count;
+    } else {
+      problems.set(key, { source, expression, error, count });
+    }
+  };
+
+  const formulas = base.formulas && typeof base.formulas === "object" ? base.formulas : {};
+  for (const diagnostic of getFormulaGraph(formulas).diagnostics) {
+    const { formula, code, message, span } = diagnostic;
+    report(`formula.${formula}`, String(formulas[formula]), { code, message, span }, 0);
+  }
+
+  for (const name of Object.keys(formulas)) {
+    for (const row of rows) {
+      const result = getFormulaResult(row, name);
+      if (!result.ok) report(`formula.${name}`, String(formulas[name]), result.error, 1);
+    }
   }
 
-  // Handle comparison expressions
-  const comparisons = [
-    { op: "==", fn: (a: any, b: any) => a == b },
-    { op: "!=", fn: (a: any, b: any) => a != b },
-    { op: ">=", fn: (a: any, b: any) => a >= b },
-    { op: "<=", fn: (a: any, b: any) => a <= b },
-    { op: ">", fn: (a: any, b: any) => a > b },
-    { op: "<", fn: (a: any, b: any) => a < b },
+  const filterSources: [string, any][] = [
+    ["base filter", base.filters],
+    ["view filter", view?.filters],
   ];
+  for (const [source, filter] of filterSources) {
+    for (const expression of filterExpressions(filter)) {
+      try {
+        getParsedExpression(expression);
+      } catch (e) {
+        report(source, expression, toEvaluationError(e), 0);
+      }
+    }
+  }
 
-  for (const { op, fn } of comparisons) {
-    if (expression.includes(op)) {
-      const [left, right] = expression.split(op).map((part) => part.trim());
-      const leftValue = getPropertyValue(file, left);
-      const rightValue = parseValue(right);
-      return fn(leftValue, rightValue);
+  for (const file of files) {
+    for (const { source, expression, error } of filterErrors.get(file) ?? []) {
+      report(source, expression, error, 1);
     }
   }
 
-  // If it's just a property name, check if it's truthy
-  return !!getPropertyValue(file, expression);
+  return [...problems.values()];
+}
+
+/**
+ * The expression strings of a filter, including those nested in and/or/not
+ */
+function filterExpressions(filter: any): string[] {
+  if (!filter) return [];
+  if (typeof filter === "string") return [filter];
+  if (Array.isArray(filter)) return filter.flatMap(filterExpressions);
+  if (typeof filter !== "object") return [];
+  return [filter.and, filter.or, filter.not].flatMap(filterExpressions);
 }
@@ -0,0 +1,228 @@
+import { DateTime } from "luxon";
+import { kindOf, parseDate, toDateTime } from "../bases-expression";
+import { getColumnValue } from "./basesParser";
+
+/**
+ * How the calendar view shows its events
+ */
+export type CalendarMode = "month" | "week" | "day" | "agenda";
+
+export const CALENDAR_MODES: CalendarMode[] = ["month", "week", "day", "agenda"];
+
+/**
+ * A file placed on the calendar
+ */
+export interface CalendarEvent {
+  file: any;
+  start: DateTime;
+  /** When the event ends; the same as `start` for files without an end */
+  end: DateTime;
+  /** Whether the event has dates without a time of day */
+  allDay: boolean;
+}
+
+/**
+ * A timed event laid out in a day of the week or day view. Times are minutes since midnight
+ */
+export interface TimedEvent {
+  event: CalendarEvent;
+  top: number;
+  height: number;
+  /** The lane of the event among the events it overlaps, and how many lanes they need */
+  lane: number;
+  lanes: number;
+}
+
+/**
+ * How long a timed event without an end is shown, in minutes
+ */
+const DEFAULT_DURATION = 60;
+
+/**
+ * Timed events are shown at least this many minutes high
+ */
+const MIN_HEIGHT = 30;
+
+const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+
+/**
+ * Read a date from a property value: dates, and text such as `2025-05-27` or `2025-05-27 14:30`
+ */
+export function toCalendarDate(value: any): DateTime | null {
+  switch (kindOf(value)) {
+    case "date": {
+      const date = toDateTime(value);
+      return date.isValid ? date : null;
+    }
+    case "string":
+      return parseDate(value);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Place files on the calendar from their start and, if configured, end fields. Files without a
+ * start date are left out, as are ends before the start. Events are ordered by start
+ */
+export function getCalendarEvents(files: any[], startField: string, endField?: string): CalendarEvent[] {
+  const events: CalendarEvent[] = [];
+  for (const file of files) {
+    const start = toCalendarDate(getColumnValue(file, startField));
+    if (!start) continue;
+
+    const end = endField ? toCalendarDate(getColumnValue(file, endField)) : null;
+    const last = end && end >= start ? end : start;
+    events.push({ file, start, end: last, allDay: !hasTime(start) && !hasTime(last) });
+  }
+  return events.sort((a, b) => a.start.toMillis() - b.start.toMillis());
+}
+
+/**
+ * Whether an event covers more than one day
+ */
+export function isMultiDay(event: CalendarEvent): boolean {
+  return !event.start.hasSame(event.end, "day");
+}
+
+/**
+ * Events shown in the all-day lane rather than at their time: all-day and multi-day events
+ */
+export function isAllDayLane(event: CalendarEvent): boolean {
+  return event.allDay || isMultiDay(event);
+}
+
+/**
+ * The events that cover any part of a day
+ */
+export function eventsOn(events: CalendarEvent[], day: DateTime): CalendarEvent[] {
+  const start = day.startOf("day");
+  const end = day.endOf("day");
+  return events.filter((event) => event.start <= end && event.end >= start);
+}
+
+/**
+ * Lay out the timed events of a day. Overlapping events share the width of the day in lanes
+ */
+export function layoutTimedEvents(events: CalendarEvent[], day: DateTime): TimedEvent[] {
+  const timed = eventsOn(events, day).filter((event) => !isAllDayLane(event));
+  const placed: TimedEvent[] = [];
+
+  let cluster: TimedEvent[] = [];
+  let laneEnds: number[] = [];
+  let clusterEnd = -Infinity;
+  const closeCluster = () => {
+    cluster.forEach((item) => (item.lanes = laneEnds.length));
+    cluster = [];
+    laneEnds = [];
+    clusterEnd = -Infinity;
+  };
+
+  for (const event of timed) {
+    const top = minutesOfDay(event.start);
+    const duration = event.end > event.start
+      ? event.end.diff(event.start, "minutes").minutes
+      : DEFAULT_DURATION;
+    const bottom = Math.min(top + Math.max(duration, MIN_HEIGHT), 24 * 60);
+
+    if (top >= clusterEnd) closeCluster();
+    let lane = laneEnds.findIndex((end) => end <= top);
+    if (lane === -1) lane = laneEnds.length;
+    laneEnds[lane] = bottom;
+    clusterEnd = Math.max(clusterEnd, bottom);
+
+    const item = { event, top, height: bottom - top, lane, lanes: 1 };
+    cluster.push(item);
+    placed.push(item);
+  }
+  closeCluster();
+  return placed;
+}
+
+/**
+ * Read the first day of the week: a day name such as `monday`, or a number from 0 (Sunday)
+ * to 6 (Saturday), with 7 also meaning Sunday. Weeks start on Sunday by default
+ */
+export function parseWeekStart(value: any): number {
+  if (typeof value === "number" && Number.isInteger(value)) return ((value % 7) + 7) % 7;
+  if (typeof value === "string") {
+    const name = value.trim().toLowerCase();
+    const index = name.length >= 3 ? WEEKDAYS.findIndex((day) => day.startsWith(name)) : -1;
+    if (index !== -1) return index;
+  }
+  return 0;
+}
+
+/**
+ * Read the calendar mode of a view, showing the month by default
+ */
+export function parseCalendarMode(value: any): CalendarMode {
+  const mode = typeof value === "string" ? value.trim().toLowerCase() : "";
+  return CALENDAR_MODES.includes(mode as CalendarMode) ? (mode as CalendarMode) : "month";
+}
+
+/**
+ * The first day of the week a date is in
+ */
+export function startOfWeek(date: DateTime, weekStart: number): DateTime {
+  // Luxon numbers weekdays from 1 (Monday) to 7 (Sunday)
+  const offset = (date.weekday % 7 - weekStart + 7) % 7;
+  return date.startOf("day").minus({ days: offset });
+}
+
+/**
+ * The days a mode shows around a date: six whole weeks for the month grid, the week, the day,
+ * or the days of the month for the agenda
+ */
+export function calendarDays(mode: CalendarMode, date: DateTime, weekStart: number): DateTime[] {
+  let first: DateTime;
+  let count: number;
+  switch (mode) {
+    case "month":
+      first = startOfWeek(date.startOf("month"), weekStart);
+      count = 42;
+      break;
+    case "week":
+      first = startOfWeek(date, weekStart);
+      count = 7;
+      break;
+    case "day":
+      first = date.startOf("day");
+      count = 1;
+      break;
+    case "agenda":
+      first = date.startOf("month");
+      count = date.daysInMonth ?? 31;
+      break;
+  }
+  return Array.from({ length: count }, (_, index) => first.plus({ days: index }));
+}
+
+/**
+ * How far the previous and next buttons move in a mode
+ */
+export function calendarStep(mode: CalendarMode): { months?: number; weeks?: number; days?: number } {
+  switch (mode) {
+    case "week":
+      return { weeks: 1 };
+    case "day":
+      return { days: 1 };
+    default:
+      return { months: 1 };
+  }
+}
+
+/**
+ * The day and time an event starts when moved to another day, keeping its time of day
+ */
+export function onDay(date: DateTime, day: DateTime): DateTime {
+  return date.set({ year: day.year, month: day.month, day: day.day });
+}
+
+function minutesOfDay(date: DateTime): number {
+  return date.hour * 60 + date.minute;
+}
+
+function hasTime(date: DateTime): boolean {
+  return date.hour !== 0 || date.minute !== 0 || date.second !== 0 || date.millisecond !== 0;
+}
@@ -0,0 +1,99 @@
+import { DateTime } from "luxon";
+import { displayString, kindOf } from "../bases-expression";
+import { getPropertyValue } from "./basesParser";
+
+/**
+ * The editor used for a table cell, after the type of the property's value
+ */
+export type EditorKind = "text" | "number" | "date" | "list" | "checkbox";
+
+/**
+ * Date properties written as text, e.g. `2025-05-27`
+ */
+const DATE_TEXT = /^\d{4}-\d{2}-\d{2}/;
+
+/**
+ * At most this many files are looked at to find the type of an empty property
+ */
+const SAMPLE_SIZE = 100;
+
+/**
+ * Pick the editor for a property value. Empty values get the editor of the first file that has
+ * a value for the property
+ */
+export function getEditorKind(value: any, property: string, files: any[] = []): EditorKind {
+  if (kindOf(value) === "null") {
+    const sample = files
+      .slice(0, SAMPLE_SIZE)
+      .map((file) => getPropertyValue(file, property))
+      .find((candidate) => kindOf(candidate) !== "null");
+    return sample === undefined ? "text" : getEditorKind(sample, property);
+  }
+
+  switch (kindOf(value)) {
+    case "boolean":
+      return "checkbox";
+    case "number":
+      return "number";
+    case "date":
+      return "date";
+    case "list":
+      return "list";
+    case "string":
+      return DATE_TEXT.test(value) ? "date" : "text";
+    default:
+      return "text";
+  }
+}
+
+/**
+ * The text shown in an editor for a value
+ */
+export function editorText(kind: EditorKind, value: any): string {
+  if (kindOf(value) === "null") return "";
+  if (kind === "date") {
+    if (value instanceof Date) return DateTime.fromJSDate(value).toISODate() ?? "";
+    if (value instanceof DateTime) return value.toISODate() ?? "";
+    return String(value).substring(0, 10);
+  }
+  return displayString(value);
+}
+
+/**
+ * The elements of a list value as text, for the list editor
+ */
+export function editorItems(value: any): string[] {
+  return Array.isArray(value) ? value.map(displayString) : [];
+}
+
+/**
+ * Convert the text of an editor back into a property value. Emptied editors clear the property.
+ * Dates stay in the form the property had, see toPropertyDate
+ */
+export function parseEditedValue(kind: EditorKind, text: string, original: any): any {
+  const trimmed = text.trim();
+  switch (kind) {
+    case "number": {
+      if (trimmed === "") return null;
+      const number = Number(trimmed);
+      return Number.isNaN(number) ? null : number;
+    }
+    case "date": {
+      if (trimmed === "") return null;
+      const date = DateTime.fromISO(trimmed);
+      return date.isValid ? toPropertyDate(date, original) : null;
+    }
+    default:
+      return trimmed === "" ? null : text;
+  }
+}
+
+/**
+ * Write a date the way a property stores it, after the property's current value `like`: text
+ * stays text, with a time only if it has one, and everything else becomes a Date
+ */
+export function toPropertyDate(date: DateTime, like: any): any {
+  if (typeof like !== "string") return date.toJSDate();
+  const hasTime = +date !== +date.startOf("day");
+  return hasTime ? date.toFormat("yyyy-MM-dd HH:mm") : date.toISODate();
+}
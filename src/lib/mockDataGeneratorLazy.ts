@@ -2,6 +2,8 @@
  * Lazy-loaded mock data generator to reduce initial bundle size
  */
 
+import { Link } from '../dataview-parser/normalize';
+
 export interface MockFile {
   file: {
     file: string;
@@ -12,8 +14,7 @@ export interface MockFile {
     size: number;
     folder: string;
     path: string;
-    tags: string[];
-    links: string[];
+    links: Link[];
   };
   status: string;
   priority: number;
@@ -61,11 +62,12 @@ export async function generateMockFiles(count: number = 20): Promise<MockFile[]>
     const possibleLinks = ["Home", "Projects", "Books", "Reading", "Textbook"];
     const links = Array.from(
       { length: Math.floor(Math.random() * 3) },
-      () => possibleLinks[Math.floor(Math.random() * possibleLinks.length)]
+      () => Link.file(possibleLinks[Math.floor(Math.random() * possibleLinks.length)])
     );
 
     // Base file properties
     const fileName = faker.system.fileName().replace(/\.[^/.]+$/, "") + ".md";
+    const folder = faker.system.directoryPath();
 
     return {
       file: {
@@ -75,9 +77,8 @@ export async function generateMockFiles(count: number = 20): Promise<MockFile[]>
         mtime: faker.date.recent(),
         ext,
         size: faker.number.int({ min: 1024, max: 1024 * 1024 * 10 }),
-        folder: faker.system.directoryPath(),
-        path: faker.system.filePath().replace(/\.[^/.]+$/, ext),
-        tags,
+        folder,
+        path: `${folder}/${fileName}`,
         links,
       },
       status: statuses[Math.floor(Math.random() * statuses.length)],
@@ -121,22 +122,22 @@ export async function generateBookData(count: number = 10): Promise<MockFile[]>
     ];
 
     // Some books should link to Textbook for our filter to work
-    const links = ["Books", "Reading"];
+    const links = [Link.file("Books"), Link.file("Reading")];
     if (Math.random() > 0.5) {
-      links.push("Textbook");
+      links.push(Link.file("Textbook"));
     }
+    const fileName = faker.lorem.words(3) + ".md";
 
     return {
       file: {
         file: `book_${i}`,
-        name: faker.lorem.words(3) + ".md",
+        name: fileName,
         ctime: faker.date.past(),
         mtime: faker.date.recent(),
         ext: ".md",
         size: faker.number.int({ min: 5000, max: 50000 }),
         folder: "/Books",
-        path: `/Books/${faker.lorem.words(3)}.md`,
-        tags,
+        path: `/Books/${fileName}`,
         links,
       },
       status,
@@ -161,11 +162,21 @@ export async function generateBookData(count: number = 10): Promise<MockFile[]>
 }
 
 /**
- * Generate a specific number of files with known properties for demonstrations
+ * Generate a specific number of files with known properties for demonstrations,
+ * half of them general notes and half books
  */
-export async function generateDemoFiles(): Promise<MockFile[]> {
-  const baseFiles = await generateMockFiles(15);
-  const bookFiles = await generateBookData(15);
+export async function generateDemoFiles(count: number = 30): Promise<MockFile[]> {
+  const baseFiles = await generateMockFiles(Math.ceil(count / 2));
+  const bookFiles = await generateBookData(Math.floor(count / 2));
+  const files = [...baseFiles, ...bookFiles];
+
+  // Link some notes to each other so that backlinks have something to show
+  files.forEach((file, index) => {
+    if (Math.random() > 0.5) {
+      const offset = 1 + Math.floor(Math.random() * (files.length - 1));
+      file.file.links.push(Link.file(files[(index + offset) % files.length].file.path));
+    }
+  });
 
-  return [...baseFiles, ...bookFiles];
+  return files;
 }
@@ -13,7 +13,7 @@ export const baseTemplates = {
         - linksTo(file.file, "Textbook")
 formulas:
   formatted_price: 'concat(price, " dollars")'
-  ppu: "price / age"
+  ppu: "(price / age).toFixed(2)"
 display:
   status: Status
   formula.formatted_price: "Price"
@@ -61,6 +61,11 @@ views:
       - author
       - priority
       - formula.reading_time
+    sort:
+      - property: priority
+        direction: DESC
+      - property: formula.reading_time
+        direction: ASC
   - type: gallery
     name: "Book Gallery"
     filters: 'formula.read_status == "Unread"'
@@ -87,7 +92,7 @@ views:
   and:
     - taggedWith(file.file, "project")
 formulas:
-  days_active: 'if(status == "In Progress", date_diff(now(), created) / 86400000, 0)'
+  days_active: 'if(status == "In Progress", ((now() - created) / 86400000).floor(), 0)'
   status_emoji: 'if(status == "Done", "✅", if(status == "In Progress", "🔄", if(status == "Backlog", "📌", "❓")))'
 display:
   formula.status_emoji: ""
@@ -108,6 +113,7 @@ views:
       - priority
       - file.name
       - formula.days_active
+    group_by: category
   - type: table
     name: "Backlog"
     filters: 'status == "Backlog"'
@@ -150,6 +156,7 @@ views:
 formulas:
   due_soon: 'if(created > dateModify(now(), "-7 days"), true, false)'
   priority_label: 'if(priority == 5, "Critical", if(priority == 4, "High", if(priority == 3, "Medium", if(priority == 2, "Low", "None"))))'
+  due_date: 'created + "30 days"'
 display:
   status: "Status"
   formula.priority_label: "Priority"
@@ -161,6 +168,14 @@ views:
     group_by: "status"
     title_field: file.name
     description_field: summary
+    group_order:
+      - Todo
+      - In Progress
+      - Done
+    hidden_groups:
+      - Cancelled
+    wip_limits:
+      In Progress: 3
   - type: table
     name: "All Tasks"
     group_by: "status"
@@ -168,10 +183,25 @@ views:
       - formula.priority_label
       - file.name
       - author
+      - priority
+    agg:
+      file.name: count
+      priority: average
   - type: calendar
     name: "Task Calendar"
     date_field: created
     title_field: file.name
+    week_start: monday
+  - type: timeline
+    name: "Task Timeline"
+    start_field: created
+    end_field: formula.due_date
+    group_by: status
+    timeline_zoom: month
+    order:
+      - file.name
+      - status
+      - formula.priority_label
   - type: table
     name: "Due Soon"
     filters: 'formula.due_soon == true'
@@ -189,6 +219,7 @@ formulas:
   read_percentage: 'readingProgress'
   time_to_finish: 'if(readingProgress < 100, wordCount * (100 - readingProgress) / 100 / 250, 0)'
   read_status: 'if(readingProgress == 100, "Finished", if(readingProgress > 0, "In Progress", "Not Started"))'
+  finish_date: 'dateStarted + "14 days"'
   star_rating: 'if(rating == 5, "★★★★★", if(rating == 4, "★★★★☆", if(rating == 3, "★★★☆☆", if(rating == 2, "★★☆☆☆", if(rating == 1, "★☆☆☆☆", "Not rated")))))'
 display:
   author: "Author"
@@ -223,7 +254,8 @@ views:
       - genre
   - type: calendar
     name: "Reading Timeline"
-    date_field: dateStarted
+    start_field: dateStarted
+    end_field: formula.finish_date
     title_field: file.name`,
   },
 };
@@ -0,0 +1,21 @@
+import { formatValue, getPropertyValue } from "./basesParser";
+
+/**
+ * A color for a group, picked from a hash of its name so the same group keeps its color across
+ * views. Saturation and lightness are percentages
+ */
+export function getGroupColor(name: string, saturation = 60, lightness = 85): string {
+  const hash = name.split("").reduce((acc, char) => {
+    return char.charCodeAt(0) + ((acc << 5) - acc);
+  }, 0);
+
+  const h = Math.abs(hash) % 360;
+  return `hsl(${h}, ${saturation}%, ${lightness}%)`;
+}
+
+/**
+ * The title a view shows for a file: the value of its title field
+ */
+export function fileTitle(file: any, titleField: string): string {
+  return formatValue(getPropertyValue(file, titleField));
+}
@@ -10,7 +10,7 @@ export default defineConfig({
         manualChunks: {
           // Vendor libraries
           'vendor-core': ['svelte'],
-          'vendor-utils': ['js-yaml', 'luxon', 'parsimmon', 'emoji-regex'],
+          'vendor-utils': ['js-yaml', 'yaml', 'luxon', 'parsimmon', 'emoji-regex'],
           'vendor-faker': ['@faker-js/faker'],
           'vendor-leaflet': ['leaflet'],
 